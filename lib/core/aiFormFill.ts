@@ -7,17 +7,57 @@ import type {
   FieldInfo,
   ChatMessage,
   ChatRequest,
+  ChatResponse,
   AIFormFillConfig,
-  AvailableProviders,
+  ProviderName,
+  ExtractionStrategy,
+  FieldFillReport,
+  FillResult,
+  FillProposal,
+  FieldSnapshot,
+  OverwritePolicy,
+  OptionMatchMode,
+  ProposedFieldValue,
+  AIFormFillHooks,
+  FillOptions,
+  PricingTable,
+  TokenUsage,
+  UsageBudget,
+  UsageReport,
+  UsageSummary,
 } from './types';
 import { AIProvider, type ProviderConfig } from '../providers/aiProvider';
-import { analyzeField, getFillTargets, setFieldValue, getFieldIdentifier } from '../utils/fieldUtils';
+import {
+  analyzeField,
+  getFillTargets,
+  setFieldValue,
+  getFieldIdentifier,
+  isEmptyValue,
+  captureFieldState,
+  restoreFieldState,
+  canOverwriteField,
+  markFieldAsAIFilled,
+} from '../utils/fieldUtils';
 import { buildFieldPrompt, buildParsePrompt, SYSTEM_PROMPTS, generateFormSchema } from '../utils/prompts';
-import { parseJsonResponse } from '../utils/jsonParser';
-import { LocalOllamaProvider } from '../providers/localOllama';
-import { OpenAIProvider } from '../providers/openai';
-import { PerplexityProvider } from '../providers/perplexity';
-import { affConfig } from './config';
+import { parseFormResponse, IncrementalJsonParser, type FormResponse } from '../utils/jsonParser';
+import { createProvider } from '../providers/registry';
+import { resolveLogger, resolveSetting } from './config';
+import type { Logger } from '../utils/logger';
+import { BudgetExceededError, FillCancelledError, MalformedResponseError, throwIfCancelled } from './errors';
+import { calculateCost, captureStreamUsage, createUsageSummary, estimateTokenUsage } from '../utils/usage';
+import { ResponseCache } from '../utils/responseCache';
+import {
+  AFF_EVENTS,
+  dispatchAffEvent,
+  type AfterFieldSetEventDetail,
+  type AfterResponseEventDetail,
+  type BeforeFieldSetEventDetail,
+  type BeforePromptEventDetail,
+  type ErrorEventDetail,
+} from './events';
+
+/** Name of the tool offered to the model with the `'tool-call'` extraction strategy */
+const FORM_TOOL_NAME = 'fill_form';
 
 /**
  * Main class for AI-powered form input
@@ -33,8 +73,25 @@ export class AIFormFill {
   private provider: AIProvider;
   private allowedProviders?: AIProvider[];
   private selectedFields?: string[];
+  private overwritePolicy: OverwritePolicy;
+  private optionMatching: OptionMatchMode;
+  private minOptionScore?: number;
+  private optionSynonyms?: Record<string, string[]>;
+  private hooks: AIFormFillHooks;
+  private throwOnError: boolean;
+  private streaming: boolean;
+  private stopRetryReporting: () => void;
+  private pricing?: PricingTable;
+  private budget?: UsageBudget;
+  private usage: UsageSummary = createUsageSummary();
+  private cache?: ResponseCache;
+  private extractionStrategy: ExtractionStrategy;
+  private debugOption?: boolean;
+  private loggerOption?: Logger;
+  /** Field states captured before each fill, most recent last */
+  private undoStack: FieldSnapshot[][] = [];
  
-  constructor(desiredProvider: AvailableProviders | AIProvider, options?: AIFormFillConfig & Partial<ProviderConfig>) {
+  constructor(desiredProvider: ProviderName | AIProvider, options?: AIFormFillConfig & Partial<ProviderConfig>) {
     if (desiredProvider instanceof AIProvider) {
       this.provider = desiredProvider;
     } else {
@@ -43,6 +100,20 @@ export class AIFormFill {
 
     this.selectedFields = options?.targetFields;
     this.allowedProviders = options?.allowedProviders;
+    this.overwritePolicy = options?.overwrite ?? 'always';
+    this.optionMatching = options?.optionMatching ?? 'exact';
+    this.minOptionScore = options?.minOptionScore;
+    this.optionSynonyms = options?.optionSynonyms;
+    this.hooks = options?.hooks ?? {};
+    this.throwOnError = options?.throwOnError ?? false;
+    this.streaming = options?.stream ?? false;
+    this.pricing = options?.pricing;
+    this.budget = options?.budget;
+    this.cache = options?.cache === true ? new ResponseCache() : options?.cache || undefined;
+    this.extractionStrategy = options?.extractionStrategy ?? 'json';
+    this.debugOption = options?.debug;
+    this.loggerOption = options?.logger;
+    this.stopRetryReporting = this.reportRetries(this.provider);
   }
 
   /**
@@ -50,9 +121,12 @@ export class AIFormFill {
    * 
    * Generates appropriate content for one field based on its label, name,
    * placeholder, and type. Useful for creative content or when you don't
-   * have source text to extract from.
+   * have source text to extract from. The response cache is not used, so every
+   * call generates a new value.
    * 
    * @param element - The form field element to fill (input, textarea, or select)
+   * @param options - Optional {@link FillOptions}, e.g. an AbortSignal to cancel the request
+   * @throws {@link FillCancelledError} if the signal is aborted before the field is written
    * 
    * @example
    * ```typescript
@@ -62,18 +136,24 @@ export class AIFormFill {
    */
   async fillSingleField(
     element: HTMLElement,
+    options?: FillOptions,
   ): Promise<void> {
     const fieldInfo = analyzeField(element);
-    
-    if (affConfig.formFillDebug) {
-      console.log(`Filling ${fieldInfo.type} field: ${fieldInfo.name}`);
+
+    if (!canOverwriteField(fieldInfo, this.overwritePolicy)) {
+      this.getLogger().debug('Skipping field that already has a value', { field: fieldInfo.name });
+      return;
     }
+    
+    this.getLogger().debug(`Filling ${fieldInfo.type} field`, { field: fieldInfo.name });
 
     // Build the prompt based on field information
     const prompt = buildFieldPrompt(fieldInfo);
 
+    const eventTarget = element.closest('form') ?? element;
+
     // Get AI response
-    const messages: ChatMessage[] = [
+    let messages: ChatMessage[] = [
       {
         role: 'system',
         content: SYSTEM_PROMPTS.FIELD_FILL,
@@ -85,40 +165,304 @@ export class AIFormFill {
     ];
 
     try {
-      const response = await this.provider.chat({
+      throwIfCancelled(options?.signal);
+      messages = await this.runBeforePrompt(eventTarget, messages);
+      const chatRequest: ChatRequest = {
         messages,
         model: this.provider.getSelectedModel(),
-      });
-      if(response.content) {
-        setFieldValue(element, response.content.trim());
-      }
-      if (affConfig.formFillDebug) {
-        console.log('Field filled with:', response.content);
+        signal: options?.signal,
+      };
+      // Generated values are meant to vary between calls, so they are never cached
+      const { response } = await this.requestChat(chatRequest, { ...options, bypassCache: true });
+      throwIfCancelled(options?.signal);
+      await this.runAfterResponse(eventTarget, response);
+      // The hook may run long enough for the caller to cancel
+      throwIfCancelled(options?.signal);
+
+      const snapshot = captureFieldState(element);
+      const report = this.fillField(fieldInfo, response.content?.trim());
+      if (report.status === 'filled') {
+        this.undoStack.push(snapshot);
       }
+      this.getLogger().debug('Field filled', { field: fieldInfo.name, value: response.content });
     } catch (error) {
-      if (affConfig.formFillDebug) {
-        console.error('Error during fillSingleField:', error);
-      }
+      if (error instanceof FillCancelledError) throw error;
+      this.getLogger().error('Error during fillSingleField', { ...this.logContext(), field: fieldInfo.name, error });
+      this.reportError(eventTarget, error);
+      if (this.throwOnError) throw error;
     }
   }
 
   /**
    * Parse unstructured text and automatically fill matching form fields
    * 
+   * Equivalent to {@link extractFormValues} followed by {@link applyProposal}
+   * for all fields. With the `stream` option and a provider that supports
+   * streaming, each field is filled as soon as its value is complete. Provider and parse errors do not throw unless `throwOnError`
+   * is set; they are reported in the returned {@link FillResult} instead.
+   * 
    * @param formElement - The HTML form to fill
    * @param unstructuredText - The source text to extract data from
    *   - Examples: Resume text, email body, paragraph descriptions, JSON strings
+   * @param options - Optional {@link FillOptions}, e.g. an AbortSignal to cancel the request
+   * @returns A {@link FillResult} with a report for every targeted field
+   * @throws {@link FillCancelledError} if the signal is aborted; no field is written in that case
    */
   async parseAndFillForm(
     formElement: HTMLFormElement,
     unstructuredText: string,
-  ): Promise<void> {
+    options?: FillOptions,
+  ): Promise<FillResult> {
+    // Tool call arguments are not streamed
+    if (this.streaming && this.provider.supportsStreaming() && !this.usesToolCalls()) {
+      return this.streamAndFillForm(formElement, unstructuredText, options);
+    }
+
+    const proposal = await this.extractFormValues(formElement, unstructuredText, options);
+    throwIfCancelled(options?.signal);
+    return this.applyProposal(proposal);
+  }
+
+  /**
+   * Extract values for a form from unstructured text without touching the DOM
+   * 
+   * Uses the same prompt, schema and parsing as {@link parseAndFillForm}, but
+   * returns the values as a {@link FillProposal} that can be reviewed and
+   * later written with {@link applyProposal}.
+   * 
+   * @param formElement - The HTML form to extract values for
+   * @param unstructuredText - The source text to extract data from
+   * @param options - Optional {@link FillOptions}, e.g. an AbortSignal to cancel the request
+   * @throws {@link FillCancelledError} if the signal is aborted
+   * 
+   * @example
+   * ```typescript
+   * const proposal = await aiForm.extractFormValues(form, text);
+   * // ...let the user review proposal.fields...
+   * aiForm.applyProposal(proposal, ['firstName', 'email']);
+   * ```
+   */
+  async extractFormValues(
+    formElement: HTMLFormElement,
+    unstructuredText: string,
+    options?: FillOptions,
+  ): Promise<FillProposal> {
+    const { targets, chatRequest } = this.buildParseRequest(formElement, unstructuredText, options);
+
+    const proposal: FillProposal = {
+      form: formElement,
+      fields: [],
+      provider: this.provider.getName(),
+      model: chatRequest.model,
+      rawResponse: null,
+    };
+
+    let extractedData: FormResponse = { values: {}, mismatches: {} };
+
+    try {
+      throwIfCancelled(options?.signal);
+      chatRequest.messages = await this.runBeforePrompt(formElement, chatRequest.messages);
+      const { response, usage, cacheHit } = await this.requestChat(chatRequest, options);
+      if (usage) proposal.usage = usage;
+      proposal.cacheHit = cacheHit;
+      throwIfCancelled(options?.signal);
+      await this.runAfterResponse(formElement, response);
+      throwIfCancelled(options?.signal);
+      const content = getExtractionContent(response, chatRequest);
+      proposal.rawResponse = content;
+      if (response.model) proposal.model = response.model;
+      if (response.provider) proposal.provider = response.provider;
+
+      if (!content) {
+        this.getLogger().warn('No content received from AI provider', { provider: proposal.provider, model: proposal.model });
+        throw new MalformedResponseError('No content received from AI provider', {
+          provider: proposal.provider,
+          model: proposal.model,
+        });
+      }
+
+      extractedData = parseFormResponse(content, {
+        schema: chatRequest.format ?? chatRequest.tools?.[0]?.parameters,
+        errorContext: { provider: proposal.provider, model: proposal.model },
+      });
+      // Only cache responses that could be parsed
+      if (!cacheHit) await this.cacheResponse(chatRequest, response);
+    } catch (error) {
+      if (error instanceof FillCancelledError) throw error;
+      this.getLogger().error('Error calling AI provider', { provider: proposal.provider, model: proposal.model, error });
+      proposal.error = error;
+      this.reportError(formElement, error);
+      if (this.throwOnError) throw error;
+      // Every targeted field is still proposed, without a value
+    }
+
+    this.getLogger().debug('Extracted data', { data: extractedData.values });
+
+    for (const field of targets) {
+      const fieldName = getFieldIdentifier(field);
+      const proposedField: ProposedFieldValue = {
+        field: fieldName,
+        fieldInfo: field,
+        value: extractedData.values[fieldName],
+      };
+      const mismatch = extractedData.mismatches[fieldName];
+      if (mismatch) proposedField.mismatch = mismatch;
+      proposal.fields.push(proposedField);
+    }
+
+    return proposal;
+  }
+
+  /**
+   * Write the values of a {@link FillProposal} into the form
+   * 
+   * Values can be edited on the proposal before applying it.
+   * 
+   * @param proposal - The proposal returned by {@link extractFormValues}
+   * @param fieldNames - Optional subset of field identifiers to apply. All fields are applied if omitted.
+   * @returns A {@link FillResult} with a report for every applied field
+   */
+  applyProposal(proposal: FillProposal, fieldNames?: string[]): FillResult {
+    const result: FillResult = {
+      fields: [],
+      provider: proposal.provider,
+      model: proposal.model,
+      rawResponse: proposal.rawResponse,
+    };
+    if (proposal.usage) result.usage = proposal.usage;
+    if (proposal.cacheHit !== undefined) result.cacheHit = proposal.cacheHit;
+    if (proposal.error !== undefined) result.error = proposal.error;
+
+    const selectedFields = fieldNames
+      ? proposal.fields.filter(proposedField => fieldNames.includes(proposedField.field))
+      : proposal.fields;
+    const snapshot = selectedFields.flatMap(proposedField => captureFieldState(proposedField.fieldInfo.element));
+
+    // Fill the client form fields with the extracted data
+    for (const proposedField of selectedFields) {
+      result.fields.push(
+        this.fillField(proposedField.fieldInfo, proposedField.value, proposedField.mismatch, proposal.error),
+      );
+    }
+
+    if (result.fields.some(report => report.status === 'filled')) {
+      this.undoStack.push(snapshot);
+    }
+
+    return result;
+  }
+
+  /**
+   * Streams the AI response and fills each field as soon as its value is complete
+   * 
+   * Cached responses are replayed through the same path instead of calling the provider.
+   * If the signal is aborted mid-stream, fields written so far are restored
+   * before rejecting with {@link FillCancelledError}.
+   */
+  private async streamAndFillForm(
+    formElement: HTMLFormElement,
+    unstructuredText: string,
+    options?: FillOptions,
+  ): Promise<FillResult> {
+    const { targets, chatRequest } = this.buildParseRequest(formElement, unstructuredText, options);
+    const result: FillResult = {
+      fields: [],
+      provider: this.provider.getName(),
+      model: chatRequest.model,
+      rawResponse: null,
+    };
+    const pendingTargets = new Map(targets.map(field => [getFieldIdentifier(field), field]));
+    const reports = new Map<FieldInfo, FieldFillReport>();
+    const snapshot = targets.flatMap(field => captureFieldState(field.element));
+    const parser = new IncrementalJsonParser(chatRequest.format);
+    let content = '';
+
+    const fillCompleted = (chunk: string) => {
+      for (const [fieldName, value] of parser.push(chunk)) {
+        const field = pendingTargets.get(fieldName);
+        if (!field) continue;
+        pendingTargets.delete(fieldName);
+        reports.set(field, this.fillField(field, value, parser.getMismatches()[fieldName]));
+      }
+    };
+
+    try {
+      throwIfCancelled(options?.signal);
+      chatRequest.messages = await this.runBeforePrompt(formElement, chatRequest.messages);
+      const cached = await this.readCache(chatRequest, options);
+      result.cacheHit = cached !== undefined;
+      let response: ChatResponse;
+
+      if (cached) {
+        response = cached;
+        content = cached.content ?? '';
+        if (cached.model) result.model = cached.model;
+        fillCompleted(content);
+      } else {
+        this.checkBudget();
+        let streamUsage: TokenUsage | undefined;
+        const stream = captureStreamUsage(this.provider.chatStream!(chatRequest), usage => { streamUsage = usage; });
+        for await (const chunk of stream) {
+          throwIfCancelled(options?.signal);
+          content += chunk;
+          fillCompleted(chunk);
+        }
+        throwIfCancelled(options?.signal);
+
+        response = { content, model: chatRequest.model, usage: streamUsage };
+        result.usage = this.recordUsage(response, chatRequest);
+      }
+      result.rawResponse = content;
+      await this.runAfterResponse(formElement, response);
+      throwIfCancelled(options?.signal);
+
+      if (!content) {
+        throw new MalformedResponseError('No content received from AI provider', {
+          provider: result.provider,
+          model: result.model,
+        });
+      }
+
+      // Validate the complete response; fields were already filled from the valid parts
+      parseFormResponse(content, {
+        schema: chatRequest.format,
+        errorContext: { provider: result.provider, model: result.model },
+      });
+      if (!cached) await this.cacheResponse(chatRequest, response);
+    } catch (error) {
+      if (error instanceof FillCancelledError) {
+        restoreFieldState(snapshot);
+        throw error;
+      }
+      this.getLogger().error('Error streaming from AI provider', { provider: result.provider, model: result.model, error });
+      result.error = error;
+      this.reportError(formElement, error);
+    }
+
+    this.getLogger().debug('Extracted data', { data: parser.getResult() });
+
+    for (const field of targets) {
+      result.fields.push(reports.get(field) ?? this.fillField(field, undefined, undefined, result.error));
+    }
+    if (result.fields.some(report => report.status === 'filled')) {
+      this.undoStack.push(snapshot);
+    }
+
+    if (result.error !== undefined && this.throwOnError) throw result.error;
+    return result;
+  }
+
+  /**
+   * Collects the targeted fields of a form and builds the extraction request for them
+   */
+  private buildParseRequest(
+    formElement: HTMLFormElement,
+    unstructuredText: string,
+    options?: FillOptions,
+  ): { targets: FieldInfo[]; chatRequest: ChatRequest } {
     const fillTargets = getFillTargets(formElement);
     
-    if (affConfig.formFillDebug) {
-      console.log('Parsing unstructured text for', fillTargets.length, 'fields');
-      console.log('Unstructured text:', fillTargets);
-    }
+    this.getLogger().debug(`Parsing unstructured text for ${fillTargets.length} fields`, { fields: fillTargets });
 
     const filteredFillTargets = 
       this.selectedFields
@@ -130,13 +474,7 @@ export class AIFormFill {
 
     const prompt = buildParsePrompt(filteredFillTargets, unstructuredText);
 
-    if (affConfig.formFillDebug) {
-      console.groupCollapsed('Constructed parse prompt:');
-      console.log(prompt);
-      console.groupEnd();
-      console.log(`Sending prompt to ${this.provider.getName()}'s ${this.provider.getSelectedModel()} model...`);
-    }
-     
+    this.getLogger().debug('Constructed parse prompt', { ...this.logContext(), prompt });
 
     const messages: ChatMessage[] = [
       {
@@ -153,50 +491,312 @@ export class AIFormFill {
     const chatRequest: ChatRequest = {
       messages,
       model: this.provider.getSelectedModel(),
+      signal: options?.signal,
     };
 
-    if (this.provider.supportsStructuredOutput()) {
+    if (this.usesToolCalls()) {
+      chatRequest.tools = [{
+        name: FORM_TOOL_NAME,
+        description: 'Fill the form with the values extracted from the text',
+        parameters: generateFormSchema(filteredFillTargets),
+      }];
+      chatRequest.toolChoice = { name: FORM_TOOL_NAME };
+      this.getLogger().debug('Using tool call extraction', { tool: chatRequest.tools[0] });
+    } else if (this.provider.supportsStructuredOutput()) {
       chatRequest.format = generateFormSchema(filteredFillTargets);
-      if (affConfig.formFillDebug) console.log('Using structured output format:', chatRequest.format);
+      this.getLogger().debug('Using structured output format', { format: chatRequest.format });
     }
 
-    let extractedData: Record<string, string> = {};
+    return { targets: filteredFillTargets, chatRequest };
+  }
+
+  /**
+   * Writes the extracted value for one field and reports the outcome
+   */
+  private fillField(
+    field: FieldInfo,
+    rawValue: string | undefined,
+    mismatch?: string,
+    requestError?: unknown,
+  ): FieldFillReport {
+    const report = this.writeField(field, rawValue, mismatch, requestError);
+    const eventTarget = field.element.closest('form') ?? field.element;
+
+    this.hooks.afterFieldSet?.(field, report);
+    dispatchAffEvent<AfterFieldSetEventDetail>(eventTarget, AFF_EVENTS.AFTER_FIELD_SET, { field, report });
+
+    return report;
+  }
+
+  /**
+   * Applies the empty-value and schema checks, overwrite policy and beforeFieldSet hooks, then writes the field.
+   * Fields without a value are reported with the request error that caused it, if any.
+   */
+  private writeField(
+    field: FieldInfo,
+    rawValue: string | undefined,
+    mismatch?: string,
+    requestError?: unknown,
+  ): FieldFillReport {
+    const fieldName = getFieldIdentifier(field);
+    const report: FieldFillReport = {
+      field: fieldName,
+      element: field.element,
+      status: 'skipped-no-match',
+    };
+
+    if (rawValue === undefined) {
+      report.reason = requestError === undefined
+        ? 'No value extracted for this field'
+        : `No value extracted: ${requestError instanceof Error ? requestError.message : String(requestError)}`;
+      return report;
+    }
+
+    report.rawValue = rawValue;
+    if (isEmptyValue(rawValue)) {
+      report.status = 'skipped-empty';
+      report.reason = 'Value is empty';
+      return report;
+    }
+
+    if (mismatch) {
+      report.status = 'failed-to-set';
+      report.reason = `Value does not match the form schema: ${mismatch}`;
+      this.getLogger().warn(`Could not fill field: ${report.reason}`, { field: fieldName });
+      return report;
+    }
+
+    if (!canOverwriteField(field, this.overwritePolicy)) {
+      report.status = 'skipped-existing-value';
+      report.reason = `Field already has a value (overwrite policy "${field.overwrite ?? this.overwritePolicy}")`;
+      return report;
+    }
+
+    const value = this.runBeforeFieldSet(field, rawValue);
+    if (value === false) {
+      report.status = 'skipped-by-hook';
+      report.reason = 'Value was vetoed by a beforeFieldSet hook';
+      return report;
+    }
 
     try {
-      const response = await this.provider.chat(chatRequest);
+      const setResult = setFieldValue(field.element, value, {
+        mode: this.optionMatching,
+        minScore: this.minOptionScore,
+        synonyms: this.optionSynonyms,
+      });
+      report.status = setResult.applied ? 'filled' : 'failed-to-set';
+      report.appliedValue = setResult.value;
+      report.reason = setResult.reason;
+      if (setResult.match) report.match = setResult.match;
+      if (setResult.applied) markFieldAsAIFilled(field.element);
+      else this.getLogger().warn(`Could not fill field: ${setResult.reason}`, { field: fieldName });
+    } catch (error) {
+      report.status = 'failed-to-set';
+      report.reason = error instanceof Error ? error.message : String(error);
+      this.getLogger().error('Failed to fill field', { field: fieldName, error });
+      this.reportError(field.element.closest('form') ?? field.element, error);
+    }
 
-      if (!response.content) {
-        if (affConfig.formFillDebug) console.warn('No content received from AI provider.');
-        return;
-      }
+    return report;
+  }
 
-      extractedData = parseJsonResponse(response.content);
+  /**
+   * Runs the beforePrompt hook and event, returning the (possibly replaced) messages
+   */
+  private async runBeforePrompt(target: HTMLElement, messages: ChatMessage[]): Promise<ChatMessage[]> {
+    const hookedMessages = (await this.hooks.beforePrompt?.(messages)) ?? messages;
+    const detail: BeforePromptEventDetail = { messages: hookedMessages };
+    dispatchAffEvent(target, AFF_EVENTS.BEFORE_PROMPT, detail);
+    return detail.messages;
+  }
+
+  /**
+   * Runs the afterResponse hook and event
+   */
+  private async runAfterResponse(target: HTMLElement, response: ChatResponse): Promise<void> {
+    await this.hooks.afterResponse?.(response);
+    dispatchAffEvent<AfterResponseEventDetail>(target, AFF_EVENTS.AFTER_RESPONSE, { response });
+  }
+
+  /**
+   * Runs the beforeFieldSet hook and cancelable event
+   * 
+   * @returns The value to write, or false if it was vetoed
+   */
+  private runBeforeFieldSet(field: FieldInfo, value: string): string | false {
+    const hookResult = this.hooks.beforeFieldSet?.(field, value);
+    if (hookResult === false) return false;
+
+    const detail: BeforeFieldSetEventDetail = { field, value: hookResult ?? value };
+    const target = field.element.closest('form') ?? field.element;
+    const allowed = dispatchAffEvent(target, AFF_EVENTS.BEFORE_FIELD_SET, detail, true);
+    return allowed ? detail.value : false;
+  }
+
+  /**
+   * Answers a chat request from the cache, or sends it to the provider after checking the budget
+   */
+  private async requestChat(
+    chatRequest: ChatRequest,
+    options?: FillOptions,
+  ): Promise<{ response: ChatResponse; usage?: UsageReport; cacheHit: boolean }> {
+    const cached = await this.readCache(chatRequest, options);
+    if (cached) return { response: cached, cacheHit: true };
+
+    this.checkBudget();
+    const logger = this.getLogger();
+    logger.debug('Sending prompt', { ...this.logContext(), model: chatRequest.model });
+    const startedAt = Date.now();
+    const response = await this.provider.chat(chatRequest);
+    logger.debug('Received response', {
+      provider: response.provider ?? this.provider.getName(),
+      model: response.model ?? chatRequest.model,
+      duration: Date.now() - startedAt,
+    });
+    return { response, usage: this.recordUsage(response, chatRequest), cacheHit: false };
+  }
+
+  /**
+   * Looks up a chat request in the cache, unless caching is disabled or bypassed
+   */
+  private async readCache(chatRequest: ChatRequest, options?: FillOptions): Promise<ChatResponse | undefined> {
+    if (!this.cache || options?.bypassCache) return undefined;
+
+    try {
+      const cached = await this.cache.get(this.provider.getName(), chatRequest);
+      if (cached) this.getLogger().debug('Using cached response', this.logContext());
+      return cached;
     } catch (error) {
-      if (affConfig.formFillDebug) console.error('Error calling AI provider:', error);
-      return;
+      this.getLogger().warn('Could not read the response cache', { error });
+      return undefined;
     }
-    
+  }
 
-    if (affConfig.formFillDebug) 
-      console.log('Extracted data:', extractedData);
+  /**
+   * Stores a response in the cache, if caching is enabled
+   */
+  private async cacheResponse(chatRequest: ChatRequest, response: ChatResponse): Promise<void> {
+    if (!this.cache || (!response.content && !response.toolCalls?.length)) return;
 
-    // Fill the client form fields with the extracted data
-    for (const field of filteredFillTargets) {
-      const fieldName = getFieldIdentifier(field);
-      if (fieldName 
-        && extractedData[fieldName]
-      ) {
-        try {
-          setFieldValue(field.element, extractedData[fieldName]);
-        } catch (error) {
-          if (affConfig.formFillDebug) {
-            console.error(`Failed to fill field "${fieldName}":`, error);
-          }
-        }
-      }
+    try {
+      await this.cache.set(this.provider.getName(), chatRequest, response);
+    } catch (error) {
+      this.getLogger().warn('Could not write the response cache', { error });
     }
   }
 
+  /**
+   * Returns the logger: the `logger` option, otherwise `affConfig.logger`, otherwise a console
+   * logger if `debug` (or `affConfig.formFillDebug`) is enabled
+   */
+  private getLogger(): Logger {
+    return resolveLogger(this.loggerOption, resolveSetting('formFillDebug', this.debugOption));
+  }
+
+  /**
+   * Returns the provider and model to attach to log messages
+   */
+  private logContext(): { provider: string; model: string } {
+    return { provider: this.provider.getName(), model: this.provider.getSelectedModel() };
+  }
+
+  /**
+   * True if values are extracted with a tool call: the strategy asks for it and the provider supports it
+   */
+  private usesToolCalls(): boolean {
+    return this.extractionStrategy === 'tool-call' && this.provider.supportsToolCalls();
+  }
+
+  /**
+   * Refuses further requests once the cumulative usage reached the budget
+   */
+  private checkBudget(): void {
+    if (!this.budget) return;
+
+    const { maxTokens, maxCost } = this.budget;
+    if (
+      (maxTokens !== undefined && this.usage.totalTokens >= maxTokens) ||
+      (maxCost !== undefined && this.usage.cost >= maxCost)
+    ) {
+      throw new BudgetExceededError(this.getUsage(), this.budget);
+    }
+  }
+
+  /**
+   * Adds the usage of a response to the cumulative counter. Usage the provider did not report
+   * is estimated from the text length, so that budgets still apply.
+   * 
+   * @returns The usage and cost of the response
+   */
+  private recordUsage(response: ChatResponse, chatRequest: ChatRequest): UsageReport {
+    this.usage.requests++;
+    const model = response.model || chatRequest.model;
+    const responseText = response.content ?? response.toolCalls?.map(toolCall => toolCall.arguments).join('') ?? '';
+    const usage = response.usage ?? estimateTokenUsage(chatRequest.messages, responseText);
+
+    const report: UsageReport = { ...usage };
+    if (!response.usage) report.estimated = true;
+    const cost = calculateCost(usage, model, this.pricing);
+    if (cost !== undefined) report.cost = cost;
+
+    this.usage.inputTokens += report.inputTokens;
+    this.usage.outputTokens += report.outputTokens;
+    this.usage.totalTokens += report.totalTokens;
+    this.usage.cost += cost ?? 0;
+
+    this.getLogger().debug('Token usage', { model, ...report });
+    return report;
+  }
+
+  /**
+   * Forwards retries of the provider to the onRetry hook; the provider logs them itself
+   * 
+   * @returns A function that stops the reporting
+   */
+  private reportRetries(provider: AIProvider): () => void {
+    return provider.addRetryListener((attempt) => {
+      this.hooks.onRetry?.(attempt);
+    });
+  }
+
+  /**
+   * Runs the onError hook and event
+   */
+  private reportError(target: HTMLElement, error: unknown): void {
+    this.hooks.onError?.(error);
+    dispatchAffEvent<ErrorEventDetail>(target, AFF_EVENTS.ERROR, { error });
+  }
+
+  /**
+   * Revert the most recent fill operation
+   * 
+   * Restores every field touched by the last {@link parseAndFillForm},
+   * {@link applyProposal} or {@link fillSingleField} call to its prior state
+   * and dispatches input/change events. Fills are undone in reverse order.
+   * 
+   * @returns true if a fill was reverted, false if there was nothing to undo
+   */
+  undo(): boolean {
+    const snapshot = this.undoStack.pop();
+    if (!snapshot) return false;
+    restoreFieldState(snapshot);
+    return true;
+  }
+
+  /**
+   * Check if there is a fill operation that can be undone
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * Discard the undo history without changing any fields
+   */
+  clearUndoHistory(): void {
+    this.undoStack = [];
+  }
 
   /**
    * Get list of available models from the form's provider
@@ -239,6 +839,34 @@ export class AIFormFill {
     return this.selectedFields;
   }
 
+  /**
+   * Set which fields may be overwritten when they already hold a value
+   */
+  setOverwritePolicy(policy: OverwritePolicy): void {
+    this.overwritePolicy = policy;
+  }
+
+  /**
+   * Get the current overwrite policy
+   */
+  getOverwritePolicy(): OverwritePolicy {
+    return this.overwritePolicy;
+  }
+
+  /**
+   * Set how extracted values are matched to the options of selects, radio groups and checkbox groups
+   */
+  setOptionMatching(mode: OptionMatchMode): void {
+    this.optionMatching = mode;
+  }
+
+  /**
+   * Get the current option matching mode
+   */
+  getOptionMatching(): OptionMatchMode {
+    return this.optionMatching;
+  }
+
   /**
    * Check if the AI provider is available and responding
    * 
@@ -251,11 +879,41 @@ export class AIFormFill {
     return true;
   }
 
+  /**
+   * Get the cumulative token usage and cost of all requests made by this instance
+   */
+  getUsage(): UsageSummary {
+    return { ...this.usage };
+  }
+
+  /**
+   * Reset the cumulative usage counter, e.g. at the start of a new session
+   */
+  resetUsage(): void {
+    this.usage = createUsageSummary();
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Change the usage budget. Pass undefined to remove it.
+   */
+  setBudget(budget?: UsageBudget): void {
+    this.budget = budget;
+  }
+
   /**
    * Change the AI provider
    */
   setProvider(provider: AIProvider): void {
+    this.stopRetryReporting();
     this.provider = provider;
+    this.stopRetryReporting = this.reportRetries(provider);
   }
 
   /**
@@ -265,6 +923,18 @@ export class AIFormFill {
     return this.provider;
   }
 
+  /**
+   * Detach from the provider
+   * 
+   * Call this when the instance is no longer used but its provider is, e.g. a provider shared
+   * between several forms, so the provider no longer holds on to it. The onRetry hook is not
+   * called afterwards.
+   */
+  dispose(): void {
+    this.stopRetryReporting();
+    this.stopRetryReporting = () => {};
+  }
+
   /**
    * Get the list of allowed providers, if any
    */
@@ -273,26 +943,37 @@ export class AIFormFill {
   }
   
   /**
-   * Setup the AI provider based on the desired provider name
+   * Setup the AI provider based on the desired provider name (see `registerProvider`)
    */
   private static constructProviderWithName(
-    providerName: AvailableProviders, 
+    providerName: ProviderName, 
     options?: AIFormFillConfig & Partial<ProviderConfig>
   ): AIProvider {
-    const providerConfig: ProviderConfig = {
-      apiEndpoint: options?.apiEndpoint || '',
-      model: options?.model || '',
+    return createProvider(providerName, {
+      apiEndpoint: options?.apiEndpoint,
+      model: options?.model,
       timeout: options?.timeout,
-    };
-    
-    const providerFactories = {
-        ollama: () => new LocalOllamaProvider(providerConfig),
-        openai: () => new OpenAIProvider(providerConfig),
-        perplexity: () => new PerplexityProvider(providerConfig),
-        /** 
-         * @extension Add more providers here as needed
-         */
-      };
-    return providerFactories[providerName]();
+      temperature: options?.temperature,
+      seed: options?.seed,
+      numCtx: options?.numCtx,
+      keepAlive: options?.keepAlive,
+      retry: options?.retry,
+      apiKey: options?.apiKey,
+      rateLimit: options?.rateLimit,
+      debug: options?.debug,
+      logger: options?.logger,
+    });
+  }
+}
+
+/**
+ * Returns the JSON to parse from a response: the arguments of the form tool call if tools
+ * were offered and the model called it, the response content otherwise
+ */
+function getExtractionContent(response: ChatResponse, chatRequest: ChatRequest): string | null {
+  if (chatRequest.tools) {
+    const toolCall = response.toolCalls?.find(call => call.name === FORM_TOOL_NAME);
+    if (toolCall) return toolCall.arguments;
   }
+  return response.content;
 }
@@ -1,23 +1,62 @@
 /**
  * Default configuration for AI Form Input library
- * 
- * Users can modify these defaults by importing and changing values:
- * 
+ *
+ * Settings are resolved per instance in three layers:
+ * 1. Options passed to an `AIFormFill` or provider instance
+ * 2. The global defaults in {@link affConfig}
+ * 3. The built-in defaults in {@link BUILT_IN_CONFIG}
+ *
+ * Users can change the global defaults by importing and changing values:
+ *
  * @example
  * ```typescript
- * import { config } from 'ai-form-input';
- * 
+ * import { affConfig } from 'ai-form-fill';
+ *
  * // Change Ollama default endpoint
- * config.ollama.apiEndpoint = 'http://my-server:11434';
- * 
+ * affConfig.ollama.apiEndpoint = 'http://my-server:11434';
+ *
  * // Change OpenAI to use real API
- * config.openai.apiEndpoint = 'https://api.openai.com/v1';
- * config.openai.model = 'gpt-4';
+ * affConfig.openai.apiEndpoint = 'https://api.openai.com/v1';
+ * affConfig.openai.model = 'gpt-4';
  * ```
  */
-export let affConfig = {
+
+import { createConsoleLogger, silentLogger, type Logger } from '../utils/logger';
+
+/**
+ * Default endpoint and model of a built-in provider
+ */
+export type ProviderDefaults = {
+  apiEndpoint: string;
+  model: string;
+}
+
+/**
+ * Built-in providers with configurable defaults
+ */
+export type ConfigurableProvider = 'ollama' | 'openai' | 'perplexity' | 'anthropic' | 'gemini' | 'openaiCompatible';
+
+/**
+ * Shape of the global configuration
+ *
+ * @param providerDebug - Log provider requests and responses (instance option: `ProviderConfig.debug`)
+ * @param formFillDebug - Log the fill pipeline (instance option: `AIFormFillConfig.debug`)
+ * @param timeout - Provider request timeout in ms (instance option: `ProviderConfig.timeout`)
+ * @param logger - Receives the diagnostics of every instance without its own logger, regardless of the debug settings
+ */
+export type AFFConfig = Record<ConfigurableProvider, ProviderDefaults> & {
+  providerDebug: boolean;
+  formFillDebug: boolean;
+  timeout: number;
+  logger?: Logger;
+}
+
+/**
+ * Built-in defaults, used for every setting that is neither set on the instance nor in {@link affConfig}
+ */
+export const BUILT_IN_CONFIG: Readonly<AFFConfig> = Object.freeze({
   ollama: {
-    apiEndpoint: 'http://localhost:11434',  
+    apiEndpoint: 'http://localhost:11434',
     model: 'gemma3:4b',
   },
   openai: {
@@ -28,8 +67,73 @@ export let affConfig = {
     apiEndpoint: 'http://localhost:5173/api', // http://localhost:5173/api for local testing proxy
     model: 'sonar',
   },
+  anthropic: {
+    apiEndpoint: 'https://api.anthropic.com/v1', // or a proxy that adds the API key
+    model: 'claude-haiku-4-5',
+  },
+  gemini: {
+    apiEndpoint: 'https://generativelanguage.googleapis.com/v1beta', // or a proxy that adds the API key
+    model: 'gemini-2.5-flash',
+  },
+  openaiCompatible: {
+    apiEndpoint: 'https://api.openai.com/v1', // any server implementing /chat/completions and /models
+    model: 'gpt-5-nano',
+  },
 
-  providerDebug: true,
-  formFillDebug: true,
+  providerDebug: false,
+  formFillDebug: false,
   timeout: 30000,
+});
+
+/**
+ * Global defaults shared by all instances on the page. Instance options take precedence.
+ */
+export let affConfig: AFFConfig = {
+  ...BUILT_IN_CONFIG,
+  ollama: { ...BUILT_IN_CONFIG.ollama },
+  openai: { ...BUILT_IN_CONFIG.openai },
+  perplexity: { ...BUILT_IN_CONFIG.perplexity },
+  anthropic: { ...BUILT_IN_CONFIG.anthropic },
+  gemini: { ...BUILT_IN_CONFIG.gemini },
+  openaiCompatible: { ...BUILT_IN_CONFIG.openaiCompatible },
 };
+
+/**
+ * Resolves the endpoint and model of a built-in provider: instance value, then global default, then built-in default
+ *
+ * @param provider - The built-in provider
+ * @param instance - Values set on the provider instance
+ */
+export function resolveProviderDefaults(
+  provider: ConfigurableProvider,
+  instance?: Partial<ProviderDefaults>,
+): ProviderDefaults {
+  return {
+    apiEndpoint: instance?.apiEndpoint || affConfig[provider]?.apiEndpoint || BUILT_IN_CONFIG[provider].apiEndpoint,
+    model: instance?.model || affConfig[provider]?.model || BUILT_IN_CONFIG[provider].model,
+  };
+}
+
+/**
+ * Resolves a global setting: instance value, then global default, then built-in default
+ *
+ * Debug settings are resolved on every read, so changes to {@link affConfig} apply to
+ * instances that did not set the option themselves.
+ */
+export function resolveSetting<K extends 'providerDebug' | 'formFillDebug' | 'timeout'>(
+  key: K,
+  instanceValue?: AFFConfig[K],
+): AFFConfig[K] {
+  return instanceValue ?? affConfig[key] ?? BUILT_IN_CONFIG[key];
+}
+
+/** Console logger used when debugging is enabled and no logger is set */
+const debugLogger = createConsoleLogger();
+
+/**
+ * Resolves the logger of an instance: its own logger, then `affConfig.logger`, then a
+ * console logger if debugging is enabled, otherwise a silent logger
+ */
+export function resolveLogger(instanceLogger: Logger | undefined, debugEnabled: boolean): Logger {
+  return instanceLogger ?? affConfig.logger ?? (debugEnabled ? debugLogger : silentLogger);
+}
@@ -0,0 +1,221 @@
+/**
+ * Error classes thrown by the AI Form Fill library
+ */
+
+import type { UsageBudget, UsageSummary } from './types';
+
+/**
+ * Base class for all errors thrown by the library
+ */
+export class AIFormFillError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'AIFormFillError';
+  }
+}
+
+/**
+ * Thrown when a fill or provider request is cancelled through an AbortSignal
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * cancelButton.onclick = () => controller.abort();
+ *
+ * try {
+ *   await aiForm.parseAndFillForm(form, text, { signal: controller.signal });
+ * } catch (error) {
+ *   if (error instanceof FillCancelledError) return; // user cancelled, nothing was written
+ *   throw error;
+ * }
+ * ```
+ */
+export class FillCancelledError extends AIFormFillError {
+  constructor(message: string = 'The operation was cancelled', options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'FillCancelledError';
+  }
+}
+
+/**
+ * Thrown instead of calling the provider once the usage budget is exhausted
+ */
+export class BudgetExceededError extends AIFormFillError {
+  /** Cumulative usage when the request was refused */
+  readonly usage: UsageSummary;
+  readonly budget: UsageBudget;
+
+  constructor(usage: UsageSummary, budget: UsageBudget) {
+    super(`Usage budget exceeded: ${usage.totalTokens} tokens, cost ${usage.cost}`);
+    this.name = 'BudgetExceededError';
+    this.usage = usage;
+    this.budget = budget;
+  }
+}
+
+/**
+ * Thrown when a request cannot wait for the rate limiter because its queue is full
+ */
+export class RateLimitQueueFullError extends AIFormFillError {
+  readonly maxQueueSize: number;
+
+  constructor(maxQueueSize: number) {
+    super(`Rate limiter queue is full (${maxQueueSize} waiting requests)`);
+    this.name = 'RateLimitQueueFullError';
+    this.maxQueueSize = maxQueueSize;
+  }
+}
+
+/**
+ * Throws a {@link FillCancelledError} if the signal has been aborted.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new FillCancelledError(undefined, { cause: signal.reason });
+  }
+}
+
+/**
+ * Where a provider error originated
+ *
+ * @param provider - Name of the provider (e.g. 'ollama')
+ * @param model - Model the request was sent to
+ * @param endpoint - URL of the failed request
+ */
+export type ProviderErrorContext = {
+  provider?: string;
+  model?: string;
+  endpoint?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors raised while talking to an AI provider
+ */
+export class ProviderError extends AIFormFillError {
+  readonly provider?: string;
+  readonly model?: string;
+  readonly endpoint?: string;
+
+  constructor(message: string, context: ProviderErrorContext = {}) {
+    super(message, { cause: context.cause });
+    this.name = 'ProviderError';
+    this.provider = context.provider;
+    this.model = context.model;
+    this.endpoint = context.endpoint;
+  }
+}
+
+/**
+ * The provider did not answer within the configured timeout
+ */
+export class ProviderTimeoutError extends ProviderError {
+  readonly timeout: number;
+
+  constructor(timeout: number, context: ProviderErrorContext = {}) {
+    super(`${context.provider ?? 'Provider'} request timed out after ${timeout}ms`, context);
+    this.name = 'ProviderTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The provider could not be reached (network error, server not running, CORS)
+ */
+export class ProviderConnectionError extends ProviderError {
+  constructor(context: ProviderErrorContext = {}) {
+    super(
+      `Failed to connect to ${context.provider ?? 'provider'}${context.endpoint ? ` at ${context.endpoint}` : ''}. Check that the service is running and reachable.`,
+      context,
+    );
+    this.name = 'ProviderConnectionError';
+  }
+}
+
+/**
+ * The provider answered with a non-2xx HTTP status
+ */
+export class ProviderHttpError extends ProviderError {
+  readonly status: number;
+  readonly statusText: string;
+  /** The response body, if it could be read */
+  readonly body?: string;
+
+  constructor(status: number, statusText: string, body?: string, context: ProviderErrorContext = {}) {
+    super(`${context.provider ?? 'Provider'} API error: ${status} ${statusText}`.trim(), context);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+  }
+}
+
+/**
+ * The provider rejected the credentials (HTTP 401/403)
+ */
+export class ProviderAuthError extends ProviderHttpError {
+  constructor(status: number, statusText: string, body?: string, context: ProviderErrorContext = {}) {
+    super(status, statusText, body, context);
+    this.name = 'ProviderAuthError';
+  }
+}
+
+/**
+ * The provider rate-limited the request (HTTP 429)
+ */
+export class ProviderRateLimitError extends ProviderHttpError {
+  /** Delay requested by the `Retry-After` header in milliseconds, if present */
+  readonly retryAfter?: number;
+
+  constructor(
+    statusText: string,
+    body?: string,
+    retryAfter?: number,
+    context: ProviderErrorContext = {},
+  ) {
+    super(429, statusText, body, context);
+    this.name = 'ProviderRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The provider answered, but not in the expected format (e.g. missing `choices`)
+ */
+export class MalformedResponseError extends ProviderError {
+  constructor(message: string, context: ProviderErrorContext = {}) {
+    super(message, context);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * The AI response could not be parsed as JSON
+ */
+export class JsonParseError extends ProviderError {
+  /** The raw response that failed to parse */
+  readonly response: string;
+
+  constructor(response: string, context: ProviderErrorContext = {}) {
+    super('Failed to parse JSON response', context);
+    this.name = 'JsonParseError';
+    this.response = response;
+  }
+}
+
+/**
+ * The AI response was valid JSON but does not match the expected form schema
+ */
+export class SchemaMismatchError extends ProviderError {
+  /** The raw response that did not match */
+  readonly response: string;
+  /** Human readable description of every mismatch */
+  readonly mismatches: string[];
+
+  constructor(response: string, mismatches: string[], context: ProviderErrorContext = {}) {
+    super(`AI response does not match the form schema: ${mismatches.join('; ')}`, context);
+    this.name = 'SchemaMismatchError';
+    this.response = response;
+    this.mismatches = mismatches;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * DOM events dispatched by AIFormFill during the fill pipeline
+ *
+ * Every lifecycle hook is mirrored as a bubbling CustomEvent on the form element
+ * (or on the field itself for fillSingleField outside a form), so integrations
+ * without access to the AIFormFill instance can listen to them.
+ *
+ * @example
+ * ```javascript
+ * form.addEventListener('aff:before-field-set', (event) => {
+ *   if (event.detail.field.name === 'password') event.preventDefault(); // veto
+ *   event.detail.value = event.detail.value.trim(); // transform
+ * });
+ * ```
+ */
+
+import type { ChatMessage, ChatResponse, FieldFillReport, FieldInfo } from './types';
+
+/**
+ * Names of the events dispatched by AIFormFill
+ */
+export const AFF_EVENTS = {
+  BEFORE_PROMPT: 'aff:before-prompt',
+  AFTER_RESPONSE: 'aff:after-response',
+  BEFORE_FIELD_SET: 'aff:before-field-set',
+  AFTER_FIELD_SET: 'aff:after-field-set',
+  ERROR: 'aff:error',
+} as const;
+
+/** Detail of `aff:before-prompt`. Listeners may mutate or replace `messages`. */
+export type BeforePromptEventDetail = { messages: ChatMessage[] };
+
+/** Detail of `aff:after-response`. */
+export type AfterResponseEventDetail = { response: ChatResponse };
+
+/**
+ * Detail of `aff:before-field-set`. Listeners may change `value`,
+ * or call `preventDefault()` to veto writing the field.
+ */
+export type BeforeFieldSetEventDetail = { field: FieldInfo; value: string };
+
+/** Detail of `aff:after-field-set`. */
+export type AfterFieldSetEventDetail = { field: FieldInfo; report: FieldFillReport };
+
+/** Detail of `aff:error`. */
+export type ErrorEventDetail = { error: unknown };
+
+/**
+ * Dispatches a bubbling CustomEvent on the target.
+ * Uses the target's own window so events work across frames and in jsdom.
+ *
+ * @returns false if the event was cancelable and a listener called preventDefault()
+ */
+export function dispatchAffEvent<T>(
+  target: EventTarget & Node,
+  name: string,
+  detail: T,
+  cancelable: boolean = false,
+): boolean {
+  const view = target.ownerDocument?.defaultView;
+  const EventConstructor = view?.CustomEvent ?? CustomEvent;
+  return target.dispatchEvent(new EventConstructor(name, { detail, bubbles: true, cancelable }));
+}
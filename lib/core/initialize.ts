@@ -1,5 +1,4 @@
 import { AIFormFill } from "./aiFormFill";
-import { type AvailableProviders } from "./types";
 
 // aff = a form fill
 export function initializeAFFQuick(formId: string = 'aff-form') {
@@ -7,7 +6,7 @@ export function initializeAFFQuick(formId: string = 'aff-form') {
   const affForm = document.getElementById(formId) as HTMLFormElement;
   const affUnstructuredTextArea = document.getElementById('aff-text') as HTMLTextAreaElement;
   const affFillButton = document.getElementById('aff-text-button') as HTMLButtonElement;
-  const affProvider = affForm.getAttribute('data-aff-provider') as AvailableProviders || "ollama" as AvailableProviders;
+  const affProvider = affForm.getAttribute('data-aff-provider') || "ollama";
 
   const affFormFill = new AIFormFill(affProvider, { debug: true });
 
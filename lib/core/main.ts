@@ -9,29 +9,138 @@ export type {
   AIFormFillConfig,
   FieldInfo,
   AvailableProviders,
+  ProviderName,
+  ExtractionStrategy,
+  FillResult,
+  FieldFillReport,
+  FieldFillStatus,
+  FieldSetResult,
+  FillProposal,
+  ProposedFieldValue,
+  FieldSnapshot,
+  OverwritePolicy,
+  OptionMatchMode,
+  OptionMatchingOptions,
+  OptionMatchScore,
+  FieldOption,
+  AIFormFillHooks,
+  FillOptions,
+  TokenUsage,
+  ModelPricing,
+  PricingTable,
+  UsageReport,
+  UsageSummary,
+  UsageBudget,
 } from './types';
 
+// Errors
+export {
+  AIFormFillError,
+  FillCancelledError,
+  BudgetExceededError,
+  RateLimitQueueFullError,
+  ProviderError,
+  ProviderTimeoutError,
+  ProviderConnectionError,
+  ProviderHttpError,
+  ProviderAuthError,
+  ProviderRateLimitError,
+  MalformedResponseError,
+  JsonParseError,
+  SchemaMismatchError,
+} from './errors';
+export type { ProviderErrorContext } from './errors';
+
+// Events
+export { AFF_EVENTS } from './events';
+export type {
+  BeforePromptEventDetail,
+  AfterResponseEventDetail,
+  BeforeFieldSetEventDetail,
+  AfterFieldSetEventDetail,
+  ErrorEventDetail,
+} from './events';
+
 // Configuration
-export { affConfig } from './config';
+export { affConfig, BUILT_IN_CONFIG } from './config';
+export type { AFFConfig, ProviderDefaults, ConfigurableProvider } from './config';
 
 // Provider interface and types
 export type {
   ChatRequest,
   ChatResponse,
+  ChatStream,
   ChatMessage,
+  GenerationOptions,
+  RetryPolicy,
+  RetryAttempt,
+  ProviderOperation,
+  RateLimitPolicy,
+  ToolDefinition,
+  ToolChoice,
+  ToolCall,
 } from './types';
 export { AIProvider } from '../providers/aiProvider';
-export type { ProviderConfig, ProviderType } from '../providers/aiProvider';
+export type { ProviderConfig, ProviderType, RetryListener } from '../providers/aiProvider';
 
 // Built-in providers
 export { LocalOllamaProvider } from '../providers/localOllama';
 export { OpenAIProvider } from '../providers/openai';
 export { PerplexityProvider } from '../providers/perplexity';
+export { AnthropicProvider } from '../providers/anthropic';
+export type { AnthropicConfig } from '../providers/anthropic';
+export { GeminiProvider } from '../providers/gemini';
+export { OpenAICompatibleProvider } from '../providers/openaiCompatible';
+export type { OpenAICompatibleConfig, OpenAIModel } from '../providers/openaiCompatible';
+export { FallbackProvider } from '../providers/fallback';
+export type { FallbackProviderConfig } from '../providers/fallback';
+export { registerProvider, unregisterProvider, listProviders, createProvider } from '../providers/registry';
+export type { ProviderFactory, ProviderRegistration } from '../providers/registry';
 
 // Utils
-export { analyzeField, getFillTargets, setFieldValue, getFieldIdentifier } from '../utils/fieldUtils';
+export {
+  analyzeField,
+  getFillTargets,
+  setFieldValue,
+  getFieldIdentifier,
+  isEmptyValue,
+  captureFieldState,
+  restoreFieldState,
+  isFieldEmpty,
+  isFieldAIFilled,
+  canOverwriteField,
+} from '../utils/fieldUtils';
+export {
+  matchOption,
+  rankOptions,
+  scoreOption,
+  normalizeOptionText,
+  DEFAULT_MIN_OPTION_SCORE,
+  DEFAULT_OPTION_SYNONYMS,
+} from '../utils/optionMatcher';
+export type { OptionMatch, ScoredOption } from '../utils/optionMatcher';
 export { buildFieldPrompt, buildParsePrompt, SYSTEM_PROMPTS } from '../utils/prompts';
-export { parseJsonResponse, isValidJson } from '../utils/jsonParser';
+export { parseJsonResponse, parseFormResponse, isValidJson, IncrementalJsonParser } from '../utils/jsonParser';
+export type { ParseJsonOptions, FormResponse } from '../utils/jsonParser';
+export { DEFAULT_RETRY_POLICY } from '../utils/retry';
+export { calculateCost } from '../utils/usage';
+export { silentLogger, createConsoleLogger, createCallbackLogger } from '../utils/logger';
+export type { Logger, LogLevel, LogContext, LogEntry } from '../utils/logger';
+export { RateLimiter } from '../utils/rateLimiter';
+export type { ReleaseSlot } from '../utils/rateLimiter';
+export {
+  ResponseCache,
+  MemoryCacheStore,
+  LocalStorageCacheStore,
+  AsyncCacheStore,
+  createCacheKey,
+} from '../utils/responseCache';
+export type {
+  CacheEntry,
+  ResponseCacheStore,
+  ResponseCacheOptions,
+  AsyncKeyValueStore,
+} from '../utils/responseCache';
 
 // Initialization script
 export { initializeAFFQuick } from './initialize';
@@ -3,6 +3,8 @@
  */
 
 import type { AIProvider } from "../providers/aiProvider";
+import type { ResponseCache } from "../utils/responseCache";
+import type { Logger } from "../utils/logger";
 
 /**
  * A single message in a chat conversation
@@ -15,14 +17,69 @@ export type ChatMessage = {
   content: string;
 }
 
+/**
+ * Sampling and runtime options for text generation
+ * 
+ * Set on a provider as defaults (see ProviderConfig) or per request.
+ * Providers forward the options their API supports and ignore the rest.
+ * 
+ * @param temperature - Sampling temperature; use 0 for deterministic extraction
+ * @param seed - Random seed for reproducible output
+ * @param numCtx - Context window size in tokens (Ollama `num_ctx`)
+ * @param keepAlive - How long the model stays loaded after the request, e.g. '5m' or seconds (Ollama `keep_alive`)
+ */
+export type GenerationOptions = {
+  temperature?: number;
+  seed?: number;
+  numCtx?: number;
+  keepAlive?: string | number;
+}
+
+/**
+ * A tool (function) the model may call
+ * 
+ * @param name - Name of the tool
+ * @param description - What the tool does, shown to the model
+ * @param parameters - JSON Schema of the tool's arguments
+ */
+export type ToolDefinition = {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * Which tool the model should call: `'auto'` lets the model decide, `'required'` forces
+ * any tool call, `{ name }` forces a specific tool
+ */
+export type ToolChoice = 'auto' | 'required' | { name: string };
+
+/**
+ * A tool call made by the model
+ * 
+ * @param id - Identifier of the call, if the provider assigns one
+ * @param name - Name of the called tool
+ * @param arguments - The arguments as a JSON string
+ */
+export type ToolCall = {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
 /**
  * Parameters for a chat completion request
  */
-export type ChatRequest = {
+export type ChatRequest = GenerationOptions & {
   messages: ChatMessage[];
   model: string;
   maxTokens?: number;
   format?: Record<string, any>; // For structured output formats
+  /** Tools the model may call, sent to providers that support tool calling */
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /** Cancels the request when aborted. Not sent to the provider. */
+  signal?: AbortSignal;
 }
 
 /**
@@ -32,6 +89,137 @@ export type ChatResponse = {
   content: string | null;
   model?: string;
   finishReason?: string;
+  /** Name of the provider that answered, set by composite providers like FallbackProvider */
+  provider?: string;
+  /** Tokens consumed by the request, if reported by the provider */
+  usage?: TokenUsage;
+  /** Tool calls made by the model, if the request offered tools */
+  toolCalls?: ToolCall[];
+}
+
+/**
+ * Tokens consumed by a request
+ */
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Content deltas of a streamed response. The generator returns the tokens consumed once
+ * the stream ends, if reported by the provider.
+ */
+export type ChatStream = AsyncGenerator<string, TokenUsage | undefined | void>;
+
+/**
+ * Price of a model per million tokens, e.g. in USD
+ */
+export type ModelPricing = {
+  input: number;
+  output: number;
+}
+
+/**
+ * Prices by model name
+ * 
+ * A key matches the exact model name or a prefix of it, so `'gpt-4o'` also prices `'gpt-4o-2024-08-06'`.
+ * The longest matching key wins.
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Token usage and its cost, if the model has a price in the pricing table
+ * 
+ * @param estimated - True if the provider did not report usage and it was estimated from the text length
+ */
+export type UsageReport = TokenUsage & {
+  cost?: number;
+  estimated?: boolean;
+}
+
+/**
+ * Cumulative usage of an AIFormFill instance
+ * 
+ * @param requests - Number of provider responses received
+ * @param cost - Sum of the costs of all priced requests
+ */
+export type UsageSummary = TokenUsage & {
+  requests: number;
+  cost: number;
+}
+
+/**
+ * Limits for the cumulative usage of an AIFormFill instance.
+ * Once a limit is reached, further requests are refused with BudgetExceededError.
+ */
+export type UsageBudget = {
+  maxTokens?: number;
+  maxCost?: number;
+}
+
+/**
+ * How a provider retries failed requests
+ * 
+ * Timeouts, connection errors and responses with a retryable status are retried
+ * with exponential backoff: `min(maxDelay, baseDelay * 2^(attempt - 1))`, randomized by `jitter`.
+ * 
+ * @param maxAttempts - Total attempts including the first one (default: 3)
+ * @param baseDelay - Delay before the first retry in ms (default: 500)
+ * @param maxDelay - Upper bound for a single delay in ms (default: 10000)
+ * @param jitter - `'full'` picks a random delay up to the backoff, `'equal'` between half and the full backoff, `'none'` uses the backoff as is (default: 'full')
+ * @param retryableStatuses - HTTP statuses that are retried (default: 408, 429, 500, 502, 503, 504)
+ * @param respectRetryAfter - Wait for the delay requested by a 429 `Retry-After` header, up to `maxDelay`, instead of the backoff (default: true)
+ */
+export type RetryPolicy = {
+  maxAttempts?: number;
+  baseDelay?: number;
+  maxDelay?: number;
+  jitter?: 'full' | 'equal' | 'none';
+  retryableStatuses?: number[];
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Provider methods covered by the retry policy
+ */
+export type ProviderOperation = 'chat' | 'listModels' | 'isAvailable';
+
+/**
+ * Reported before a failed provider request is retried
+ * 
+ * @param provider - Name of the provider
+ * @param operation - The provider method that failed
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param maxAttempts - Total attempts allowed by the retry policy
+ * @param delay - Milliseconds until the next attempt
+ * @param error - The error of the failed attempt
+ */
+export type RetryAttempt = {
+  provider: string;
+  operation: ProviderOperation;
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  error: unknown;
+}
+
+/**
+ * Client-side limits for the requests a provider sends
+ * 
+ * Requests beyond the limits wait in a queue. A 429 response with `Retry-After`
+ * pauses the limiter until the requested time has passed.
+ * 
+ * @param maxRequests - Requests allowed per `interval`, refilled continuously (token bucket; default: unlimited)
+ * @param interval - Length of the interval in ms (default: 1000)
+ * @param maxConcurrent - Requests that may run at the same time (default: unlimited)
+ * @param maxQueueSize - Requests that may wait; further requests fail with `RateLimitQueueFullError` (default: unlimited)
+ */
+export type RateLimitPolicy = {
+  maxRequests?: number;
+  interval?: number;
+  maxConcurrent?: number;
+  maxQueueSize?: number;
 }
 
 /**
@@ -66,8 +254,178 @@ export type AIFormFillConfig = {
    */
   allowedProviders?: AIProvider[];
   
-  /** Enable console logging for debugging (default: false) */
+  /**
+   * Enable console logging for debugging (default: `affConfig.formFillDebug`, which is `false`).
+   * Also enables provider logging for providers created by name.
+   */
   debug?: boolean;
+
+  /**
+   * Receives all diagnostics of the instance regardless of `debug`, e.g. a
+   * {@link createCallbackLogger | callback logger} that forwards to telemetry.
+   * Also used by providers created by name.
+   * Default: `affConfig.logger`, then a console logger if `debug` is enabled, otherwise silent.
+   */
+  logger?: Logger;
+
+  /**
+   * How extracted values are matched to the options of selects, radio groups and
+   * checkbox groups (default: `'exact'`). `'fuzzy'` also accepts the best-scoring close match.
+   */
+  optionMatching?: OptionMatchMode;
+
+  /**
+   * Minimum score between 0 and 1 for fuzzy option matches (default: 0.8)
+   */
+  minOptionScore?: number;
+
+  /**
+   * Additional terms treated as equivalent when matching options in fuzzy mode
+   * (e.g. `{ germany: ['deutschland', 'de'] }`)
+   */
+  optionSynonyms?: Record<string, string[]>;
+
+  /**
+   * Which fields may be overwritten when they already hold a value (default: `'always'`).
+   * Can be overridden per field with the `data-aff-overwrite` attribute.
+   */
+  overwrite?: OverwritePolicy;
+
+  /**
+   * Optional callbacks around the fill pipeline.
+   * Each hook is also dispatched as an `aff:*` CustomEvent on the form element.
+   */
+  hooks?: AIFormFillHooks;
+
+  /**
+   * Reject with the typed error (e.g. ProviderTimeoutError, JsonParseError) instead of
+   * reporting it in `FillResult.error` (default: false)
+   */
+  throwOnError?: boolean;
+
+  /**
+   * Stream the AI response and fill each field as soon as its value is complete,
+   * if the provider supports streaming (default: false)
+   */
+  stream?: boolean;
+
+  /** Prices per model, used to compute the cost of every request (see `getUsage()`) */
+  pricing?: PricingTable;
+
+  /** Refuse to call the provider once the cumulative usage reaches a limit */
+  budget?: UsageBudget;
+
+  /**
+   * Cache provider responses for identical requests. Pass `true` for an in-memory cache
+   * or a `ResponseCache` with a custom store and TTL (default: no cache)
+   */
+  cache?: boolean | ResponseCache;
+
+  /**
+   * How form values are extracted (default: `'json'`).
+   * `'tool-call'` sends the form schema as a `fill_form` tool to providers that support
+   * tool calling and reads the call's arguments; other providers use `'json'`.
+   */
+  extractionStrategy?: ExtractionStrategy;
+}
+
+/**
+ * How form values are extracted from the model
+ * 
+ * - `'json'`: ask for a JSON object, using structured output if the provider supports it
+ * - `'tool-call'`: ask the model to call a `fill_form` tool whose parameters are the form schema
+ */
+export type ExtractionStrategy = 'json' | 'tool-call';
+
+/**
+ * Per-call options for AIFormFill fill operations
+ */
+export type FillOptions = {
+  /** Aborting the signal cancels the request; no field is written and the call rejects with FillCancelledError */
+  signal?: AbortSignal;
+  /** Skip the cache lookup and request a fresh response, which then replaces the cached one */
+  bypassCache?: boolean;
+}
+
+/**
+ * Lifecycle hooks of the fill pipeline
+ * 
+ * @example
+ * ```typescript
+ * const aiForm = new AIFormFill('ollama', {
+ *   hooks: {
+ *     beforePrompt: (messages) => [...messages, { role: 'user', content: 'Use British spelling.' }],
+ *     beforeFieldSet: (field, value) => field.name === 'password' ? false : value,
+ *     onError: (error) => showToast(String(error)),
+ *   },
+ * });
+ * ```
+ */
+export type AIFormFillHooks = {
+  /** Called before the prompt is sent. Return a new message list to replace it, or mutate it in place. */
+  beforePrompt?: (messages: ChatMessage[]) => ChatMessage[] | void | Promise<ChatMessage[] | void>;
+  /** Called with the raw provider response before it is parsed */
+  afterResponse?: (response: ChatResponse) => void | Promise<void>;
+  /** Called before a value is written. Return a string to transform the value, or false to veto it. */
+  beforeFieldSet?: (field: FieldInfo, value: string) => string | false | void;
+  /** Called after a field was processed, with its report */
+  afterFieldSet?: (field: FieldInfo, report: FieldFillReport) => void;
+  /** Called when the provider call, response parsing or writing a field fails */
+  onError?: (error: unknown) => void;
+  /** Called before a failed provider request is retried (see `ProviderConfig.retry`) */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * Policy deciding whether a field that already holds a value may be overwritten
+ * 
+ * - `always`: overwrite any field the AI returned a value for
+ * - `empty-only`: only fill fields that are empty
+ * - `ai-filled-only`: fill empty fields and fields still holding a previous AI value
+ */
+export type OverwritePolicy = 'always' | 'empty-only' | 'ai-filled-only';
+
+/**
+ * An option of a select, radio group or checkbox group
+ */
+export type FieldOption = {
+  value: string;
+  label: string;
+}
+
+/**
+ * How extracted values are matched to the options of selects, radio groups and checkbox groups
+ * 
+ * - `exact`: the option with this value, otherwise the option whose value or label equals
+ *   the value ignoring case, accents and whitespace
+ * - `fuzzy`: like `exact`, then falls back to the best-scoring option, compared by words,
+ *   edit distance, acronyms and synonyms
+ */
+export type OptionMatchMode = 'exact' | 'fuzzy';
+
+/**
+ * Settings for matching extracted values to options
+ * 
+ * @param mode - Matching mode (default: 'exact')
+ * @param minScore - Minimum score between 0 and 1 a fuzzy match needs (default: 0.8)
+ * @param synonyms - Terms treated as equivalent, in addition to the built-in ones
+ *   (e.g. `{ 'united states': ['usa', 'us'] }`)
+ */
+export type OptionMatchingOptions = {
+  mode?: OptionMatchMode;
+  minScore?: number;
+  synonyms?: Record<string, string[]>;
+}
+
+/**
+ * How confidently a value was matched to an option of a select or radio group
+ * 
+ * @param score - Score of the chosen (or, if none was chosen, the closest) option, between 0 and 1
+ * @param runnerUp - The next best option, if any scored above 0 (fuzzy mode only)
+ */
+export type OptionMatchScore = {
+  score: number;
+  runnerUp?: { value: string; label: string; score: number };
 }
 
 /**
@@ -81,11 +439,147 @@ export type FieldInfo = {
   placeholder?: string;
   pattern?: string;
   hint?: string;
-  /** For radio buttons: array of available options with value and label */
-  options?: Array<{ value: string; label: string }>;
+  /** Per-field overwrite policy from the `data-aff-overwrite` attribute */
+  overwrite?: OverwritePolicy;
+  /** For selects, radio groups and checkbox groups: array of available options with value and label */
+  options?: FieldOption[];
+  /** True for fields that take a list of values: multi-selects and checkboxes sharing a name */
+  multiple?: boolean;
+}
+
+/**
+ * Outcome of writing a single value into a form field
+ * 
+ * @param applied - Whether the field was actually changed
+ * @param value - The normalized value that was written (e.g. the option value for selects)
+ * @param reason - Why the value could not be written, if it was not applied
+ * @param match - For selects and radio groups: score of the matched option and the runner-up
+ */
+export type FieldSetResult = {
+  applied: boolean;
+  value?: string;
+  reason?: string;
+  match?: OptionMatchScore;
+}
+
+/**
+ * Prior state of a single form element, captured before a fill so it can be undone
+ * 
+ * @param element - The captured element
+ * @param value - The element's value (text inputs, textareas, selects)
+ * @param checked - The checked state (checkboxes, radios)
+ * @param selectedOptions - The selected state of every option (selects)
+ */
+export type FieldSnapshot = {
+  element: HTMLElement;
+  value?: string;
+  checked?: boolean;
+  selectedOptions?: boolean[];
+}
+
+/**
+ * Status of a single field after a fill operation
+ * 
+ * - `filled`: a value was extracted and written into the field
+ * - `skipped-empty`: the AI returned an empty value (e.g. "null", "n/a")
+ * - `skipped-no-match`: the AI response contained no value for this field
+ * - `skipped-existing-value`: the field already holds a value the overwrite policy protects
+ * - `skipped-by-hook`: a `beforeFieldSet` hook or `aff:before-field-set` listener vetoed the value
+ * - `failed-to-set`: a value was extracted but could not be written (e.g. no matching option)
+ */
+export type FieldFillStatus =
+  | 'filled'
+  | 'skipped-empty'
+  | 'skipped-no-match'
+  | 'skipped-existing-value'
+  | 'skipped-by-hook'
+  | 'failed-to-set';
+
+/**
+ * Per-field report produced by a fill operation
+ */
+export type FieldFillReport = {
+  /** Identifier used to match the field in the AI response (see getFieldIdentifier) */
+  field: string;
+  element: HTMLElement;
+  status: FieldFillStatus;
+  /** The raw value extracted by the AI, if any */
+  rawValue?: string;
+  /** The normalized value actually written into the field */
+  appliedValue?: string;
+  /** Explanation for skipped or failed fields */
+  reason?: string;
+  /** For selects and radio groups: how confidently the value was matched to an option */
+  match?: OptionMatchScore;
+}
+
+/**
+ * Result of a parseAndFillForm call
+ * 
+ * @example
+ * ```typescript
+ * const result = await aiForm.parseAndFillForm(form, text);
+ * const filled = result.fields.filter(f => f.status === 'filled');
+ * console.log(`${filled.length} fields filled by ${result.provider}/${result.model}`);
+ * ```
+ */
+export type FillResult = {
+  fields: FieldFillReport[];
+  /** Name of the provider that handled the request */
+  provider: string;
+  /** Model that produced the response */
+  model: string;
+  /** The unparsed response content, or null if none was received */
+  rawResponse: string | null;
+  /** Tokens and cost of the request, estimated if the provider reported none */
+  usage?: UsageReport;
+  /** True if the response was served from the cache */
+  cacheHit?: boolean;
+  /** The error that prevented the form from being filled, if any */
+  error?: unknown;
+}
+
+/**
+ * A value extracted by the AI for a single field, not yet written to the DOM
+ */
+export type ProposedFieldValue = {
+  /** Identifier used to match the field in the AI response (see getFieldIdentifier) */
+  field: string;
+  fieldInfo: FieldInfo;
+  /** The extracted value, or undefined if the AI returned nothing for this field */
+  value?: string;
+  /** Why the value does not match the field's type in the form schema; such values are not written */
+  mismatch?: string;
+}
+
+/**
+ * Values extracted for a form that can be reviewed before being applied
+ * 
+ * Returned by `AIFormFill.extractFormValues` and consumed by `AIFormFill.applyProposal`.
+ */
+export type FillProposal = {
+  form: HTMLFormElement;
+  fields: ProposedFieldValue[];
+  /** Name of the provider that handled the request */
+  provider: string;
+  /** Model that produced the response */
+  model: string;
+  /** The unparsed response content, or null if none was received */
+  rawResponse: string | null;
+  /** Tokens and cost of the request, estimated if the provider reported none */
+  usage?: UsageReport;
+  /** True if the response was served from the cache */
+  cacheHit?: boolean;
+  /** The error that prevented values from being extracted, if any */
+  error?: unknown;
 }
 
 /**
  * All currently implemented provider names
  */
-export type AvailableProviders = 'openai' | 'ollama' | 'perplexity';
+export type AvailableProviders = 'openai' | 'ollama' | 'perplexity' | 'anthropic' | 'gemini' | 'openai-compatible';
+
+/**
+ * Name of a registered provider: a built-in one or any name added with `registerProvider`
+ */
+export type ProviderName = AvailableProviders | (string & {});
@@ -1,13 +1,85 @@
-import type { ChatRequest, ChatResponse } from '../core/types';
-import { affConfig } from '../core/config';
+import type {
+  ChatRequest,
+  ChatResponse,
+  ChatStream,
+  GenerationOptions,
+  ProviderOperation,
+  RateLimitPolicy,
+  RetryAttempt,
+  RetryPolicy,
+} from '../core/types';
+import { resolveLogger, resolveSetting } from '../core/config';
+import type { Logger } from '../utils/logger';
+import { getRetryDelay, isRetryableError, resolveRetryPolicy, sleep } from '../utils/retry';
+import { RateLimiter, type ReleaseSlot } from '../utils/rateLimiter';
+import {
+  FillCancelledError,
+  ProviderAuthError,
+  ProviderConnectionError,
+  ProviderError,
+  ProviderHttpError,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+  MalformedResponseError,
+  type ProviderErrorContext,
+} from '../core/errors';
+
+/**
+ * Messages of the TypeError fetch rejects with on network failures (Node, Chrome, Safari, Firefox, React Native)
+ */
+const FETCH_FAILURE_MESSAGES = [
+  'fetch failed',
+  'failed to fetch',
+  'load failed',
+  'networkerror when attempting to fetch resource',
+  'network request failed',
+];
+
+/**
+ * Error codes of network failures in Node, on the error or its cause
+ */
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EPIPE',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/** True if fetch failed to reach the server, as opposed to any other error thrown while handling the request. */
+function isNetworkError(error: Error): boolean {
+  const codes = [error, error.cause].map(source => (source as { code?: unknown } | undefined)?.code);
+  if (codes.some(code => typeof code === 'string' && NETWORK_ERROR_CODES.includes(code))) return true;
+
+  const message = error.message.toLowerCase();
+  return error instanceof TypeError && FETCH_FAILURE_MESSAGES.some(failure => message.startsWith(failure));
+}
 
 /**
  * Configuration options for AI providers.
+ * 
+ * Generation options (temperature, seed, ...) set here are used as defaults for every request.
  */
-export interface ProviderConfig {
+export interface ProviderConfig extends GenerationOptions {
   apiEndpoint?: string;
   model?: string;
+  /** Timeout of a single attempt in ms (default: `affConfig.timeout`) */
   timeout?: number;
+  /** Log requests, responses and retries (default: `affConfig.providerDebug`) */
+  debug?: boolean;
+  /** Receives the provider's diagnostics regardless of `debug` (default: `affConfig.logger`, then a console logger if debugging is enabled) */
+  logger?: Logger;
+  /** Retry failed requests with exponential backoff; without a policy requests are not retried */
+  retry?: RetryPolicy;
+  /** Limit request rate and concurrency; pass a {@link RateLimiter} to share one limit between providers */
+  rateLimit?: RateLimitPolicy | RateLimiter;
+  /** API key for providers that call the API directly instead of through a proxy */
+  apiKey?: string;
   chatEndpoint?: string;
   listModelsEndpoint?: string;
   availabilityEndpoint?: string;
@@ -15,6 +87,11 @@ export interface ProviderConfig {
 
 export type ProviderType = 'local' | 'remote';
 
+/**
+ * Listener notified before a failed provider request is retried
+ */
+export type RetryListener = (attempt: RetryAttempt) => void;
+
 /**
  * Base class that all AI providers must extend
  * 
@@ -46,19 +123,61 @@ export abstract class AIProvider {
   protected apiEndpoint: string;
   protected timeout: number;
   protected supportsStructuredResponses: boolean = false;
+  protected supportsToolCalling: boolean = false;
+  protected generationOptions: GenerationOptions;
+  protected retryPolicy: Required<RetryPolicy>;
+  protected rateLimiter?: RateLimiter;
+  private retryListeners = new Set<RetryListener>();
+  private debugOption?: boolean;
+  private loggerOption?: Logger;
 
   constructor(config?: ProviderConfig) {
     this.apiEndpoint = config?.apiEndpoint || '';
     this.selectedModel = config?.model || '';
-    this.timeout = config?.timeout || 30000;
+    this.timeout = resolveSetting('timeout', config?.timeout || undefined);
+    this.debugOption = config?.debug;
+    this.loggerOption = config?.logger;
+    this.generationOptions = {
+      temperature: config?.temperature,
+      seed: config?.seed,
+      numCtx: config?.numCtx,
+      keepAlive: config?.keepAlive,
+    };
+    this.retryPolicy = resolveRetryPolicy(config?.retry);
+    this.rateLimiter = config?.rateLimit instanceof RateLimiter
+      ? config.rateLimit
+      : config?.rateLimit && new RateLimiter(config.rateLimit);
   }
   /**
    * Sends a message to a model of the AI provider and returns the response
+   * 
+   * Implementations should honor `params.signal` and reject with a
+   * {@link FillCancelledError} when it is aborted. Other failures should be
+   * reported as {@link ProviderError} subclasses (see {@link toProviderError}).
+   * 
    * @param params - The {@link ChatRequest | chat request} including messages, model, etc.
    * @returns A promise that resolves to a {@link ChatResponse}
    */
   abstract chat(params: ChatRequest): Promise<ChatResponse>;
 
+  /**
+   * **Optional**: Sends a chat request and streams the response content as it is generated
+   * 
+   * Honors `params.signal` like {@link chat}. Providers that implement this
+   * report {@link supportsStreaming} as true.
+   * 
+   * @param params - The {@link ChatRequest | chat request} including messages, model, etc.
+   * @returns A {@link ChatStream} of content deltas that returns the token usage, if reported
+   */
+  chatStream?(params: ChatRequest): ChatStream;
+
+  /**
+   * Indicates if the provider can stream responses via {@link chatStream}
+   */
+  supportsStreaming(): boolean {
+    return typeof this.chatStream === 'function';
+  }
+
   /** Returns the currently selected model. */
   getSelectedModel(): string {
     return this.selectedModel;
@@ -75,12 +194,14 @@ export abstract class AIProvider {
       if (models && models.includes(modelName)) {
         this.selectedModel = modelName;
         return true;
-      } else if (affConfig.providerDebug) {
-        console.warn(`Model "${modelName}" not found. Available: ${models.join(', ')}`);
       }
+      this.getLogger().warn(`Model "${modelName}" not found. Available: ${models.join(', ')}`, {
+        provider: this.providerName,
+        model: modelName,
+      });
       return false;
     } catch (err) {
-      if (affConfig.providerDebug) console.warn('Could not validate model:', err);
+      this.getLogger().warn('Could not validate model', { provider: this.providerName, model: modelName, error: err });
       // Set anyway if validation fails
       this.selectedModel = modelName;
       return true;
@@ -105,6 +226,273 @@ export abstract class AIProvider {
     return this.providerName;
   }
 
+  /**
+   * Registers a listener that is notified before every retry of {@link chat}, {@link listModels} or {@link isAvailable}
+   * 
+   * @returns A function that removes the listener
+   */
+  addRetryListener(listener: RetryListener): () => void {
+    this.retryListeners.add(listener);
+    return () => {
+      this.retryListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns the rate limiter of the provider, if one is configured
+   */
+  getRateLimiter(): RateLimiter | undefined {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Indicates if debug logging is enabled: the instance's `debug` option, otherwise `affConfig.providerDebug`
+   */
+  protected isDebugEnabled(): boolean {
+    return resolveSetting('providerDebug', this.debugOption);
+  }
+
+  /**
+   * Returns the logger for the provider's diagnostics (see {@link resolveLogger})
+   */
+  protected getLogger(): Logger {
+    return resolveLogger(this.loggerOption, this.isDebugEnabled());
+  }
+
+  /**
+   * Notifies all retry listeners about an upcoming retry
+   */
+  protected notifyRetry(attempt: RetryAttempt): void {
+    for (const listener of this.retryListeners) listener(attempt);
+  }
+
+  /**
+   * Runs a request and retries it according to the provider's retry policy
+   * 
+   * The request function is called once per attempt, so it should create its own
+   * request signal (and with it a fresh timeout). Waiting between attempts is cut
+   * short with a {@link FillCancelledError} when the caller's signal aborts.
+   * 
+   * Errors are translated with {@link toProviderError} before they are classified.
+   * Every attempt waits for a slot of the rate limiter, which is released before the backoff.
+   * 
+   * @param operation - The provider method, reported to retry listeners
+   * @param endpoint - URL of the request, attached to errors
+   * @param request - Performs one attempt
+   * @param signal - Optional signal of the caller
+   */
+  protected async withRetry<T>(
+    operation: ProviderOperation,
+    endpoint: string,
+    request: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const policy = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.runRateLimited(request, signal);
+      } catch (requestError) {
+        const error = this.toProviderError(requestError, endpoint, signal);
+        if (attempt >= policy.maxAttempts || !isRetryableError(error, policy)) throw error;
+
+        const retryAttempt: RetryAttempt = {
+          provider: this.providerName,
+          operation,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          delay: getRetryDelay(policy, attempt, error),
+          error,
+        };
+        this.getLogger().warn(`${operation} attempt ${attempt}/${policy.maxAttempts} failed, retrying in ${retryAttempt.delay}ms`, {
+          provider: this.providerName,
+          model: this.selectedModel,
+          error,
+        });
+        this.notifyRetry(retryAttempt);
+
+        await sleep(retryAttempt.delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Waits for a slot of the rate limiter, if one is configured
+   * 
+   * Streaming requests, which are not run through {@link withRetry}, call this themselves.
+   * 
+   * @returns A function that must be called once the request settles
+   */
+  protected async acquireRequestSlot(signal?: AbortSignal): Promise<ReleaseSlot> {
+    if (!this.rateLimiter) return () => {};
+    return this.rateLimiter.acquire(signal);
+  }
+
+  /**
+   * Runs a single request while holding a slot of the rate limiter
+   */
+  private async runRateLimited<T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!this.rateLimiter) return request();
+
+    const release = await this.acquireRequestSlot(signal);
+    try {
+      return await request();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Merges the provider's default generation options with the ones set on the request
+   */
+  protected resolveGenerationOptions(params: ChatRequest): GenerationOptions {
+    return {
+      temperature: params.temperature ?? this.generationOptions.temperature,
+      seed: params.seed ?? this.generationOptions.seed,
+      numCtx: params.numCtx ?? this.generationOptions.numCtx,
+      keepAlive: params.keepAlive ?? this.generationOptions.keepAlive,
+    };
+  }
+
+  /**
+   * Returns the provider, model and endpoint to attach to errors
+   */
+  protected errorContext(endpoint?: string, cause?: unknown): ProviderErrorContext {
+    return {
+      provider: this.providerName,
+      model: this.selectedModel,
+      endpoint,
+      cause,
+    };
+  }
+
+  /**
+   * Builds the typed error for a non-2xx response, including the response body
+   * 
+   * - 401/403 → {@link ProviderAuthError}
+   * - 429 → {@link ProviderRateLimitError} with the parsed `Retry-After` delay, which also pauses the rate limiter
+   * - everything else → {@link ProviderHttpError}
+   */
+  protected async createHttpError(response: Response, endpoint: string): Promise<ProviderHttpError> {
+    let body: string | undefined;
+    try {
+      body = await response.text();
+    } catch {
+      body = undefined;
+    }
+    const context = this.errorContext(endpoint);
+
+    if (response.status === 401 || response.status === 403) {
+      return new ProviderAuthError(response.status, response.statusText, body, context);
+    }
+    if (response.status === 429) {
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      if (retryAfter !== undefined) this.rateLimiter?.pause(retryAfter);
+      return new ProviderRateLimitError(response.statusText, body, retryAfter, context);
+    }
+    return new ProviderHttpError(response.status, response.statusText, body, context);
+  }
+
+  /**
+   * Reads a JSON response body, throwing {@link MalformedResponseError} if it is not valid JSON
+   */
+  protected async readJson<T>(response: Response, endpoint: string): Promise<T> {
+    try {
+      return await response.json() as T;
+    } catch (error) {
+      throw new MalformedResponseError(
+        `${this.providerName} returned a response that is not valid JSON`,
+        this.errorContext(endpoint, error),
+      );
+    }
+  }
+
+  /**
+   * Reads a streamed response body line by line (NDJSON, server-sent events)
+   * 
+   * Empty lines are skipped; a trailing line without newline is emitted when the stream ends.
+   */
+  protected async *readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let pending = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        pending += decoder.decode(value, { stream: true });
+        const lines = pending.split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) yield line.trim();
+        }
+      }
+      pending += decoder.decode();
+      if (pending.trim()) yield pending.trim();
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Translates an error thrown while calling fetch into the library's error hierarchy
+   * 
+   * - aborted by the caller's signal → {@link FillCancelledError}
+   * - aborted by the timeout → {@link ProviderTimeoutError}
+   * - network failure → {@link ProviderConnectionError}
+   * - errors that are already typed are returned unchanged
+   */
+  protected toProviderError(error: unknown, endpoint: string, externalSignal?: AbortSignal): Error {
+    if (externalSignal?.aborted) {
+      return new FillCancelledError(`${this.providerName} request was cancelled`, { cause: error });
+    }
+    if (error instanceof ProviderError || error instanceof FillCancelledError) {
+      return error;
+    }
+    // DOMException is not an Error subclass in every environment, so check the name first
+    const errorName = (error as { name?: unknown } | null)?.name;
+    if (errorName === 'AbortError' || errorName === 'TimeoutError') {
+      return new ProviderTimeoutError(this.timeout, this.errorContext(endpoint, error));
+    }
+    if (error instanceof Error) {
+      if (isNetworkError(error)) {
+        return new ProviderConnectionError(this.errorContext(endpoint, error));
+      }
+      return error;
+    }
+    return new ProviderError(String(error), this.errorContext(endpoint, error));
+  }
+
+  /**
+   * Creates a signal that aborts when the provider timeout elapses or the caller's signal aborts
+   * 
+   * @param externalSignal - Optional signal passed by the caller
+   * @returns The combined signal and a cleanup function that must be called once the request settles
+   */
+  protected createRequestSignal(externalSignal?: AbortSignal): { signal: AbortSignal; cleanup: () => void } {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const onExternalAbort = () => controller.abort();
+
+    if (externalSignal?.aborted) {
+      onExternalAbort();
+    } else {
+      externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+
+    return {
+      signal: controller.signal,
+      cleanup: () => {
+        clearTimeout(timeoutId);
+        externalSignal?.removeEventListener('abort', onExternalAbort);
+      },
+    };
+  }
+
   /**
    * Indicates if the provider supports structured output formats (e.g., JSON Schema)
    * 
@@ -113,6 +501,30 @@ export abstract class AIProvider {
   supportsStructuredOutput(): boolean {
     return this.supportsStructuredResponses;
   }
+
+  /**
+   * Indicates if the provider forwards `ChatRequest.tools` and reports `ChatResponse.toolCalls`
+   * 
+   * @returns true if tool calling is supported, false otherwise
+   */
+  supportsToolCalls(): boolean {
+    return this.supportsToolCalling;
+  }
+}
+
+/**
+ * Parses a `Retry-After` header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) return Math.max(0, date - Date.now());
+
+  return undefined;
 }
 
 /**
@@ -0,0 +1,325 @@
+/**
+ * Anthropic provider implementation
+ *
+ * Talks to the Anthropic Messages API. Differences to the chat format used by this library:
+ * - System messages are sent as the separate `system` parameter
+ * - `max_tokens` is required
+ * - Responses consist of content blocks
+ * - Structured extraction uses forced tool use, with the form schema as the tool's input schema
+ */
+
+import { resolveProviderDefaults } from '../core/config';
+import { MalformedResponseError, ProviderError } from '../core/errors';
+import type { ChatRequest, ChatResponse, ChatStream } from '../core/types';
+import { RemoteAIProvider, type ProviderConfig } from './aiProvider';
+import { createTokenUsage } from '../utils/usage';
+
+/**
+ * A content block of an Anthropic response
+ */
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+/**
+ * Anthropic Messages API response format
+ */
+export type AnthropicResponse = {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * A server-sent event of a streamed Anthropic response
+ * 
+ * `message_start` carries the input tokens in `message.usage`, `message_delta` the
+ * cumulative output tokens in `usage`.
+ */
+export type AnthropicStreamEvent = {
+  type: string;
+  message?: {
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+    };
+  };
+  delta?: {
+    type: string;
+    text?: string;
+    partial_json?: string;
+  };
+  usage?: {
+    output_tokens?: number;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * Configuration options for the AnthropicProvider
+ *
+ * @param apiKey - Sent as `x-api-key`; leave empty when a proxy adds it
+ * @param apiVersion - Value of the `anthropic-version` header (default: '2023-06-01')
+ * @param maxTokens - `max_tokens` used when a request does not set `maxTokens` (default: 1024)
+ * @param dangerouslyAllowBrowser - Send the header that allows calling the API from a browser with an API key
+ */
+export interface AnthropicConfig extends ProviderConfig {
+  apiVersion?: string;
+  maxTokens?: number;
+  dangerouslyAllowBrowser?: boolean;
+}
+
+/** Name of the tool used to force structured output */
+const EXTRACTION_TOOL_NAME = 'fill_form';
+
+/**
+ * Provider implementation for the Anthropic Messages API
+ *
+ * @example
+ * ```typescript
+ * const provider = new AnthropicProvider({
+ *   apiEndpoint: 'https://my-proxy.example.com/anthropic/v1', // proxy that adds the API key
+ *   model: 'claude-haiku-4-5',
+ * });
+ * ```
+ * @see {@link https://docs.anthropic.com/en/api/messages | Anthropic Messages API Documentation}
+ */
+export class AnthropicProvider extends RemoteAIProvider {
+  protected providerName: string = 'anthropic';
+  protected supportsStructuredResponses: boolean = true;
+  protected chatEndpoint: string;
+  protected listModelsEndpoint: string;
+  protected availabilityEndpoint: string;
+
+  private apiKey?: string;
+  private apiVersion: string;
+  private defaultMaxTokens: number;
+  private dangerouslyAllowBrowser: boolean;
+
+  constructor(config?: AnthropicConfig) {
+    super({
+      ...config,
+      ...resolveProviderDefaults('anthropic', config),
+    });
+    this.apiKey = config?.apiKey;
+    this.apiVersion = config?.apiVersion ?? '2023-06-01';
+    this.defaultMaxTokens = config?.maxTokens ?? 1024;
+    this.dangerouslyAllowBrowser = config?.dangerouslyAllowBrowser ?? false;
+
+    const baseUrl = this.apiEndpoint.replace(/\/+$/, '');
+    this.chatEndpoint = config?.chatEndpoint || `${baseUrl}/messages`;
+    this.listModelsEndpoint = config?.listModelsEndpoint || `${baseUrl}/models`;
+    this.availabilityEndpoint = config?.availabilityEndpoint || this.listModelsEndpoint;
+  }
+
+  override async chat(params: ChatRequest): Promise<ChatResponse> {
+    return this.withRetry('chat', this.chatEndpoint, () => this.sendChat(params), params.signal);
+  }
+
+  /**
+   * Sends a single chat attempt
+   */
+  private async sendChat(params: ChatRequest): Promise<ChatResponse> {
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(params, false)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      const responseBody = await this.readJson<AnthropicResponse>(response, requestEndpoint);
+
+      this.getLogger().debug('Response body', { provider: this.providerName, model: this.selectedModel, responseBody });
+
+      if (!Array.isArray(responseBody?.content)) {
+        throw new MalformedResponseError(
+          'Anthropic response does not contain any content blocks',
+          this.errorContext(requestEndpoint),
+        );
+      }
+
+      return {
+        content: extractContent(responseBody.content),
+        model: responseBody.model,
+        finishReason: responseBody.stop_reason ?? undefined,
+        usage: createTokenUsage(responseBody.usage?.input_tokens, responseBody.usage?.output_tokens),
+      };
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Streams text deltas, or the tool input JSON when a schema is forced
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    const release = await this.acquireRequestSlot(params.signal);
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+        body: JSON.stringify(this.buildRequestBody(params, true)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      let inputTokens: number | undefined;
+      let outputTokens: number | undefined;
+      for await (const line of this.readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(line.slice('data:'.length).trim());
+        } catch (error) {
+          throw new MalformedResponseError(
+            'Anthropic stream contains invalid JSON',
+            this.errorContext(requestEndpoint, error),
+          );
+        }
+
+        if (event.type === 'error') {
+          throw new ProviderError(
+            `Anthropic stream error: ${event.error?.message ?? 'unknown error'}`,
+            this.errorContext(requestEndpoint),
+          );
+        }
+        if (event.type === 'message_stop') break;
+        if (event.type === 'message_start') {
+          inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+          outputTokens = event.message?.usage?.output_tokens ?? outputTokens;
+        }
+        if (event.type === 'message_delta') outputTokens = event.usage?.output_tokens ?? outputTokens;
+        if (event.type !== 'content_block_delta') continue;
+
+        const content = event.delta?.text ?? event.delta?.partial_json;
+        if (content) yield content;
+      }
+      return createTokenUsage(inputTokens, outputTokens);
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+      release();
+    }
+  }
+
+  override async listModels(): Promise<string[]> {
+    const requestEndpoint = this.listModelsEndpoint;
+
+    try {
+      return await this.withRetry('listModels', requestEndpoint, async () => {
+        const response = await fetch(requestEndpoint, { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        const responseBody = await this.readJson<{ data: Array<{ id: string }> }>(response, requestEndpoint);
+        return (responseBody.data || []).map((model) => model.id);
+      });
+    } catch (error) {
+      this.getLogger().error('Error listing models', { provider: this.providerName, error });
+      return [];
+    }
+  }
+
+  override async isAvailable(): Promise<boolean> {
+    const requestEndpoint = this.availabilityEndpoint;
+
+    try {
+      return await this.withRetry('isAvailable', requestEndpoint, async () => {
+        const response = await fetch(requestEndpoint, { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        return true;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Translates a ChatRequest into a Messages API request body
+   */
+  private buildRequestBody(params: ChatRequest, stream: boolean): Record<string, unknown> {
+    const generationOptions = this.resolveGenerationOptions(params);
+    const system = params.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      model: params.model,
+      max_tokens: params.maxTokens ?? this.defaultMaxTokens,
+      system: system || undefined,
+      messages: params.messages
+        .filter(message => message.role !== 'system')
+        .map(message => ({ role: message.role, content: message.content })),
+      temperature: generationOptions.temperature,
+      stream,
+      // Forced tool use returns the extracted values as the tool input, see
+      // https://docs.anthropic.com/en/docs/build-with-claude/tool-use
+      ...(params.format && {
+        tools: [{
+          name: EXTRACTION_TOOL_NAME,
+          description: 'Record the values extracted for the form fields',
+          input_schema: params.format,
+        }],
+        tool_choice: { type: 'tool', name: EXTRACTION_TOOL_NAME },
+      }),
+    };
+  }
+
+  /**
+   * Returns the JSON, version and authentication headers
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'anthropic-version': this.apiVersion,
+    };
+    if (this.apiKey) headers['x-api-key'] = this.apiKey;
+    if (this.dangerouslyAllowBrowser) headers['anthropic-dangerous-direct-browser-access'] = 'true';
+    return headers;
+  }
+}
+
+/**
+ * Returns the tool input as JSON if the model used the extraction tool, the joined text blocks otherwise
+ */
+function extractContent(blocks: AnthropicContentBlock[]): string | null {
+  const toolUse = blocks.find(block => block.type === 'tool_use' && block.name === EXTRACTION_TOOL_NAME);
+  if (toolUse && toolUse.type === 'tool_use') return JSON.stringify(toolUse.input);
+
+  const text = blocks
+    .filter(block => block.type === 'text')
+    .map(block => (block as { text: string }).text)
+    .join('');
+  return text || null;
+}
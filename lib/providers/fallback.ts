@@ -0,0 +1,259 @@
+/**
+ * Fallback provider implementation
+ *
+ * Wraps an ordered list of providers and sends each request to the first one
+ * that is available, failing over to the next one when a provider times out
+ * or cannot be reached.
+ */
+
+import {
+  AIFormFillError,
+  FillCancelledError,
+  ProviderConnectionError,
+  ProviderTimeoutError,
+} from '../core/errors';
+import type { ChatRequest, ChatResponse, ChatStream, TokenUsage } from '../core/types';
+import { AIProvider, LocalAIProvider, type ProviderConfig, type ProviderType } from './aiProvider';
+import { captureStreamUsage } from '../utils/usage';
+
+/**
+ * Configuration options for the FallbackProvider
+ *
+ * @param availabilityTtl - How long an `isAvailable()` result is cached in ms (default: 30000)
+ */
+export interface FallbackProviderConfig extends ProviderConfig {
+  availabilityTtl?: number;
+}
+
+/**
+ * Provider that tries a list of providers in order
+ *
+ * - Providers whose cached `isAvailable()` result is false are skipped
+ * - Timeouts and connection errors mark the provider as unavailable and fail over to the next one
+ * - Other errors (e.g. authentication, malformed responses) are thrown right away
+ * - Every provider keeps its own model; the structured output schema and tools are only
+ *   sent to providers that support them
+ *
+ * The name of the provider that answered is recorded in `ChatResponse.provider`.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FallbackProvider([
+ *   new LocalOllamaProvider({ model: 'gemma3:4b' }),
+ *   new OpenAIProvider({ model: 'gpt-5-nano' }),
+ * ], { availabilityTtl: 60000 });
+ *
+ * const aiForm = new AIFormFill(provider);
+ * ```
+ */
+export class FallbackProvider extends AIProvider {
+  protected providerName: string = 'fallback';
+  protected providerType: ProviderType;
+
+  private providers: AIProvider[];
+  private availabilityTtl: number;
+  private availability = new Map<AIProvider, { available: boolean; checkedAt: number }>();
+  private activeProvider?: AIProvider;
+  private stopForwardingRetries: Array<() => void>;
+
+  constructor(providers: AIProvider[], config?: FallbackProviderConfig) {
+    super(config);
+    if (providers.length === 0) {
+      throw new AIFormFillError('FallbackProvider requires at least one provider');
+    }
+    this.providers = [...providers];
+    this.availabilityTtl = config?.availabilityTtl ?? 30000;
+    this.providerType = this.providers.every(provider => provider instanceof LocalAIProvider) ? 'local' : 'remote';
+    this.supportsStructuredResponses = this.providers.some(provider => provider.supportsStructuredOutput());
+    this.supportsToolCalling = this.providers.some(provider => provider.supportsToolCalls());
+
+    this.stopForwardingRetries = this.providers.map(provider =>
+      provider.addRetryListener(attempt => this.notifyRetry(attempt)),
+    );
+  }
+
+  /**
+   * Detach from the wrapped providers
+   * 
+   * Call this when the fallback chain is no longer used but its providers are, e.g. a provider
+   * shared between several chains, so retries are no longer forwarded by this chain.
+   */
+  dispose(): void {
+    this.stopForwardingRetries.forEach(stop => stop());
+    this.stopForwardingRetries = [];
+  }
+
+  override async chat(params: ChatRequest): Promise<ChatResponse> {
+    let lastError: unknown;
+
+    for await (const provider of this.candidates()) {
+      try {
+        const response = await provider.chat(this.requestFor(provider, params));
+        this.activeProvider = provider;
+        return { ...response, provider: response.provider ?? provider.getName() };
+      } catch (error) {
+        this.handleFailure(provider, error, params.signal);
+        lastError = error;
+      }
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  /**
+   * Streams from the first available provider. Providers without streaming support
+   * answer with a single chunk. Failover only happens before the first chunk was received.
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    let lastError: unknown;
+
+    for await (const provider of this.candidates()) {
+      const request = this.requestFor(provider, params);
+      let receivedChunk = false;
+      let usage: TokenUsage | undefined;
+
+      try {
+        if (provider.supportsStreaming()) {
+          const stream = captureStreamUsage(provider.chatStream!(request), reported => { usage = reported; });
+          for await (const chunk of stream) {
+            receivedChunk = true;
+            yield chunk;
+          }
+        } else {
+          const response = await provider.chat(request);
+          receivedChunk = true;
+          usage = response.usage;
+          if (response.content) yield response.content;
+        }
+        this.activeProvider = provider;
+        return usage;
+      } catch (error) {
+        if (receivedChunk) throw error;
+        this.handleFailure(provider, error, params.signal);
+        lastError = error;
+      }
+    }
+
+    throw this.exhaustedError(lastError);
+  }
+
+  /**
+   * Lists the models of all available providers
+   */
+  override async listModels(): Promise<string[]> {
+    const models: string[] = [];
+    for await (const provider of this.candidates()) {
+      models.push(...await provider.listModels());
+    }
+    return [...new Set(models)];
+  }
+
+  /**
+   * Returns true if any provider is available. Refreshes the cached availability of every provider.
+   */
+  override async isAvailable(): Promise<boolean> {
+    const results = await Promise.all(this.providers.map(provider => this.checkAvailability(provider, true)));
+    return results.some(Boolean);
+  }
+
+  /** Returns the model of the primary provider. */
+  override getSelectedModel(): string {
+    return this.providers[0].getSelectedModel();
+  }
+
+  /**
+   * Sets the model of the primary provider. Fallback providers keep their own model.
+   */
+  override async setSelectedModel(modelName: string): Promise<boolean> {
+    return this.providers[0].setSelectedModel(modelName);
+  }
+
+  /**
+   * Returns the wrapped providers in the order they are tried
+   */
+  getProviders(): AIProvider[] {
+    return [...this.providers];
+  }
+
+  /**
+   * Returns the provider that answered the most recent request, if any
+   */
+  getActiveProvider(): AIProvider | undefined {
+    return this.activeProvider;
+  }
+
+  /**
+   * Forgets all cached availability results
+   */
+  clearAvailabilityCache(): void {
+    this.availability.clear();
+  }
+
+  /**
+   * Yields the providers to try, skipping those that are cached as unavailable
+   */
+  private async *candidates(): AsyncGenerator<AIProvider> {
+    for (const provider of this.providers) {
+      if (await this.checkAvailability(provider)) {
+        yield provider;
+      } else {
+        this.getLogger().warn('Skipping unavailable provider', { provider: provider.getName() });
+      }
+    }
+  }
+
+  /**
+   * Returns the cached availability of a provider, checking it if the cache expired
+   */
+  private async checkAvailability(provider: AIProvider, refresh: boolean = false): Promise<boolean> {
+    const cached = this.availability.get(provider);
+    if (!refresh && cached && Date.now() - cached.checkedAt < this.availabilityTtl) {
+      return cached.available;
+    }
+
+    let available: boolean;
+    try {
+      available = await provider.isAvailable();
+    } catch {
+      available = false;
+    }
+    this.availability.set(provider, { available, checkedAt: Date.now() });
+    return available;
+  }
+
+  /**
+   * Rethrows errors that should not fail over; marks the provider as unavailable otherwise
+   */
+  private handleFailure(provider: AIProvider, error: unknown, signal?: AbortSignal): void {
+    if (signal?.aborted || error instanceof FillCancelledError) throw error;
+    if (!(error instanceof ProviderTimeoutError || error instanceof ProviderConnectionError)) throw error;
+
+    this.availability.set(provider, { available: false, checkedAt: Date.now() });
+    this.getLogger().warn('Provider failed, falling back to the next provider', {
+      provider: provider.getName(),
+      model: provider.getSelectedModel(),
+      error,
+    });
+  }
+
+  /**
+   * Adapts the request to a provider: its own model, and the schema and tools only if supported
+   */
+  private requestFor(provider: AIProvider, params: ChatRequest): ChatRequest {
+    const supportsTools = provider.supportsToolCalls();
+    return {
+      ...params,
+      model: provider.getSelectedModel(),
+      format: provider.supportsStructuredOutput() ? params.format : undefined,
+      tools: supportsTools ? params.tools : undefined,
+      toolChoice: supportsTools ? params.toolChoice : undefined,
+    };
+  }
+
+  /**
+   * The error thrown once every provider failed or was unavailable
+   */
+  private exhaustedError(lastError: unknown): unknown {
+    return lastError ?? new ProviderConnectionError({ provider: this.providerName });
+  }
+}
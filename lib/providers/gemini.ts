@@ -0,0 +1,342 @@
+/**
+ * Google Gemini provider implementation
+ *
+ * Talks to the Gemini API `generateContent` endpoint:
+ * - `ChatMessage[]` is translated into `contents` (roles `user`/`model`) and `systemInstruction`
+ * - Structured output is requested with `responseSchema`, which only supports a subset of JSON Schema
+ */
+
+import { resolveProviderDefaults } from '../core/config';
+import { MalformedResponseError } from '../core/errors';
+import type { ChatMessage, ChatRequest, ChatResponse, ChatStream, TokenUsage } from '../core/types';
+import { RemoteAIProvider, type ProviderConfig } from './aiProvider';
+import { createTokenUsage } from '../utils/usage';
+
+/**
+ * Gemini `generateContent` response format
+ */
+export type GeminiResponse = {
+  candidates?: Array<{
+    content?: {
+      role?: string;
+      parts?: Array<{ text?: string }>;
+    };
+    finishReason?: string;
+  }>;
+  modelVersion?: string;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+/**
+ * Gemini model information as returned by the models endpoint
+ */
+export type GeminiModel = {
+  name: string;
+  displayName?: string;
+  supportedGenerationMethods?: string[];
+}
+
+/**
+ * Keywords of the JSON Schema subset accepted by `responseSchema`
+ */
+const SUPPORTED_SCHEMA_KEYWORDS = new Set([
+  'type',
+  'format',
+  'title',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'propertyOrdering',
+  'items',
+  'minItems',
+  'maxItems',
+  'minimum',
+  'maximum',
+  'anyOf',
+]);
+
+/** String formats accepted by `responseSchema` */
+const SUPPORTED_STRING_FORMATS = new Set(['enum', 'date-time']);
+
+/**
+ * Provider implementation for the Google Gemini API
+ *
+ * @example
+ * ```typescript
+ * const provider = new GeminiProvider({
+ *   apiEndpoint: 'https://my-proxy.example.com/gemini/v1beta', // proxy that adds the API key
+ *   model: 'gemini-2.5-flash',
+ * });
+ * ```
+ * @see {@link https://ai.google.dev/api/generate-content | Gemini API Documentation}
+ */
+export class GeminiProvider extends RemoteAIProvider {
+  protected providerName: string = 'gemini';
+  protected supportsStructuredResponses: boolean = true;
+  protected listModelsEndpoint: string;
+  protected availabilityEndpoint: string;
+
+  private apiKey?: string;
+
+  constructor(config?: ProviderConfig) {
+    super({
+      ...config,
+      ...resolveProviderDefaults('gemini', config),
+    });
+    this.apiKey = config?.apiKey;
+
+    const baseUrl = this.apiEndpoint.replace(/\/+$/, '');
+    this.listModelsEndpoint = config?.listModelsEndpoint || `${baseUrl}/models`;
+    this.availabilityEndpoint = config?.availabilityEndpoint || this.listModelsEndpoint;
+  }
+
+  override async chat(params: ChatRequest): Promise<ChatResponse> {
+    return this.withRetry('chat', this.modelEndpoint(params.model, 'generateContent'), () => this.sendChat(params), params.signal);
+  }
+
+  /**
+   * Sends a single chat attempt
+   */
+  private async sendChat(params: ChatRequest): Promise<ChatResponse> {
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.modelEndpoint(params.model, 'generateContent');
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(params)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      const responseBody = await this.readJson<GeminiResponse>(response, requestEndpoint);
+
+      this.getLogger().debug('Response body', { provider: this.providerName, model: this.selectedModel, responseBody });
+
+      const candidate = responseBody?.candidates?.[0];
+      if (!candidate) {
+        throw new MalformedResponseError(
+          'Gemini response does not contain any candidates',
+          this.errorContext(requestEndpoint),
+        );
+      }
+
+      return {
+        content: extractText(responseBody) || null,
+        model: responseBody.modelVersion,
+        finishReason: candidate.finishReason,
+        usage: createTokenUsage(
+          responseBody.usageMetadata?.promptTokenCount,
+          responseBody.usageMetadata?.candidatesTokenCount,
+          responseBody.usageMetadata?.totalTokenCount,
+        ),
+      };
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Streams the response as server-sent events (`streamGenerateContent?alt=sse`)
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    const release = await this.acquireRequestSlot(params.signal);
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = `${this.modelEndpoint(params.model, 'streamGenerateContent')}?alt=sse`;
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+        body: JSON.stringify(this.buildRequestBody(params)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      let usage: TokenUsage | undefined;
+      for await (const line of this.readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+
+        let chunk: GeminiResponse;
+        try {
+          chunk = JSON.parse(line.slice('data:'.length).trim());
+        } catch (error) {
+          throw new MalformedResponseError(
+            'Gemini stream contains invalid JSON',
+            this.errorContext(requestEndpoint, error),
+          );
+        }
+        const content = extractText(chunk);
+        if (content) yield content;
+        // Every chunk reports the usage so far; the last one has the final counts
+        if (chunk.usageMetadata) {
+          usage = createTokenUsage(
+            chunk.usageMetadata.promptTokenCount,
+            chunk.usageMetadata.candidatesTokenCount,
+            chunk.usageMetadata.totalTokenCount,
+          ) ?? usage;
+        }
+      }
+      return usage;
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+      release();
+    }
+  }
+
+  /**
+   * Lists the models that support `generateContent`, without the `models/` prefix
+   */
+  override async listModels(): Promise<string[]> {
+    const requestEndpoint = this.listModelsEndpoint;
+
+    try {
+      return await this.withRetry('listModels', requestEndpoint, async () => {
+        const response = await fetch(requestEndpoint, { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        const responseBody = await this.readJson<{ models?: GeminiModel[] }>(response, requestEndpoint);
+        return (responseBody.models || [])
+          .filter((model) => model.supportedGenerationMethods?.includes('generateContent') ?? true)
+          .map((model) => model.name.replace(/^models\//, ''));
+      });
+    } catch (error) {
+      this.getLogger().error('Error listing models', { provider: this.providerName, error });
+      return [];
+    }
+  }
+
+  override async isAvailable(): Promise<boolean> {
+    const requestEndpoint = this.availabilityEndpoint;
+
+    try {
+      return await this.withRetry('isAvailable', requestEndpoint, async () => {
+        const response = await fetch(requestEndpoint, { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        return true;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the URL of a model method, e.g. `.../models/gemini-2.5-flash:generateContent`
+   */
+  private modelEndpoint(model: string, method: string): string {
+    const baseUrl = this.apiEndpoint.replace(/\/+$/, '');
+    return `${baseUrl}/models/${encodeURIComponent(model.replace(/^models\//, ''))}:${method}`;
+  }
+
+  /**
+   * Translates a ChatRequest into a generateContent request body
+   */
+  private buildRequestBody(params: ChatRequest): Record<string, unknown> {
+    const generationOptions = this.resolveGenerationOptions(params);
+    const system = params.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+
+    return {
+      contents: toGeminiContents(params.messages),
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      generationConfig: {
+        maxOutputTokens: params.maxTokens,
+        temperature: generationOptions.temperature,
+        seed: generationOptions.seed,
+        // See https://ai.google.dev/gemini-api/docs/structured-output
+        ...(params.format && {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(params.format),
+        }),
+      },
+    };
+  }
+
+  /**
+   * Returns the JSON and authentication headers
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers['x-goog-api-key'] = this.apiKey;
+    return headers;
+  }
+}
+
+/**
+ * Translates chat messages into Gemini contents. System messages are sent as `systemInstruction` instead.
+ */
+function toGeminiContents(messages: ChatMessage[]): Array<{ role: string; parts: Array<{ text: string }> }> {
+  return messages
+    .filter(message => message.role !== 'system')
+    .map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }],
+    }));
+}
+
+/**
+ * Reduces a JSON Schema to the subset supported by `responseSchema`
+ *
+ * Unsupported keywords like `additionalProperties`, `pattern` or `$schema` are dropped,
+ * as are string formats other than `date-time` and `enum`.
+ */
+export function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const geminiSchema: Record<string, any> = {};
+
+  for (const [keyword, value] of Object.entries(schema)) {
+    if (!SUPPORTED_SCHEMA_KEYWORDS.has(keyword)) continue;
+
+    switch (keyword) {
+      case 'properties':
+        geminiSchema.properties = Object.fromEntries(
+          Object.entries(value as Record<string, Record<string, any>>)
+            .map(([name, propertySchema]) => [name, toGeminiSchema(propertySchema)]),
+        );
+        break;
+      case 'items':
+        geminiSchema.items = toGeminiSchema(value);
+        break;
+      case 'anyOf':
+        geminiSchema.anyOf = (value as Array<Record<string, any>>).map(toGeminiSchema);
+        break;
+      case 'format':
+        if (schema.type !== 'string' || SUPPORTED_STRING_FORMATS.has(value)) geminiSchema.format = value;
+        break;
+      default:
+        geminiSchema[keyword] = value;
+    }
+  }
+
+  return geminiSchema;
+}
+
+/**
+ * Joins the text parts of the first candidate
+ */
+function extractText(response: GeminiResponse): string {
+  return (response.candidates?.[0]?.content?.parts ?? [])
+    .map(part => part.text ?? '')
+    .join('');
+}
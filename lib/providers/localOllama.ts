@@ -13,9 +13,12 @@
  * 
  */
 
-import { affConfig } from '../core/config';
-import type { ChatRequest, ChatResponse } from '../core/types';
+import { resolveProviderDefaults } from '../core/config';
+import { MalformedResponseError } from '../core/errors';
+import type { ChatRequest, ChatResponse, ChatStream, ToolCall } from '../core/types';
 import { LocalAIProvider, type ProviderConfig } from '../providers/aiProvider';
+import { createTokenUsage } from '../utils/usage';
+import { toOpenAITools } from './openai';
 
 /**
  * Ollama API response format
@@ -25,9 +28,19 @@ export type OllamaResponse = {
   message: {
     role: string;
     content: string;
+    tool_calls?: Array<{
+      function: {
+        name: string;
+        arguments: Record<string, unknown>;
+      };
+    }>;
   };
   done: boolean;
   created_at?: string;
+  /** Number of tokens in the prompt */
+  prompt_eval_count?: number;
+  /** Number of tokens in the response */
+  eval_count?: number;
 }
 
 /**
@@ -66,15 +79,15 @@ export interface OllamaModel {
 export class LocalOllamaProvider extends LocalAIProvider {
   protected providerName: string = 'ollama';
   protected supportsStructuredResponses: boolean = true;
+  protected supportsToolCalling: boolean = true;
   protected chatEndpoint: string;
   protected listModelsEndpoint: string;
   protected availabilityEndpoint: string;
 
   constructor(config?: ProviderConfig) {
     super({
-      apiEndpoint: config?.apiEndpoint || affConfig.ollama.apiEndpoint,
-      model: config?.model || affConfig.ollama.model,
-      timeout: config?.timeout || affConfig.timeout,
+      ...config,
+      ...resolveProviderDefaults('ollama', config),
     });
     this.chatEndpoint = this.apiEndpoint + '/api/chat';
     this.listModelsEndpoint = this.apiEndpoint + '/api/tags';
@@ -82,80 +95,166 @@ export class LocalOllamaProvider extends LocalAIProvider {
   }
 
   override async chat(params: ChatRequest): Promise<ChatResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    return this.withRetry('chat', this.chatEndpoint, () => this.sendChat(params), params.signal);
+  }
+
+  /**
+   * Sends a single chat attempt
+   */
+  private async sendChat(params: ChatRequest): Promise<ChatResponse> {
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
     const requestEndpoint = this.chatEndpoint;
 
     try {
-      const requestBody = {
-        model: params.model,
-        messages: params.messages,
-        stream: false, 
-        options: {
-          num_predict: params.maxTokens,
-        },
-      };
-
       const response = await fetch(requestEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
+        body: JSON.stringify(this.buildRequestBody(params, false)),
+        signal,
       });
 
       if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+        throw await this.createHttpError(response, requestEndpoint);
       }
 
-      const data: OllamaResponse = await response.json();
+      const data = await this.readJson<OllamaResponse>(response, requestEndpoint);
+      if (typeof data?.message?.content !== 'string') {
+        throw new MalformedResponseError(
+          'Ollama response does not contain a message',
+          this.errorContext(requestEndpoint),
+        );
+      }
 
       // Translate Ollama response to standard format
       return {
         content: data.message.content,
         model: data.model,
         finishReason: data.done ? 'stop' : 'length',
+        usage: createTokenUsage(data.prompt_eval_count, data.eval_count),
+        toolCalls: fromOllamaToolCalls(data.message.tool_calls),
       };
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error(`Ollama request timed out after ${this.timeout}ms`);
-        }
-        if (error.message.includes('fetch') || error.message.includes('Failed to fetch')) {
-          throw new Error(`Failed to connect to Ollama at ${this.apiEndpoint}. Is Ollama running?`);
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Streams the response using Ollama's newline-delimited JSON format (`stream: true`)
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    const release = await this.acquireRequestSlot(params.signal);
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(this.buildRequestBody(params, true)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      for await (const line of this.readLines(response)) {
+        let chunk: OllamaResponse;
+        try {
+          chunk = JSON.parse(line);
+        } catch (error) {
+          throw new MalformedResponseError(
+            'Ollama stream contains invalid JSON',
+            this.errorContext(requestEndpoint, error),
+          );
         }
+        if (chunk.message?.content) yield chunk.message.content;
+        // The final chunk carries the token counts
+        if (chunk.done) return createTokenUsage(chunk.prompt_eval_count, chunk.eval_count);
       }
-      throw error;
+      return undefined;
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
     } finally {
-      clearTimeout(timeoutId);
+      cleanup();
+      release();
     }
   }
 
+  /**
+   * Translates a ChatRequest into Ollama's /api/chat request body
+   */
+  private buildRequestBody(params: ChatRequest, stream: boolean): Record<string, unknown> {
+    const generationOptions = this.resolveGenerationOptions(params);
+    return {
+      model: params.model,
+      messages: params.messages,
+      stream,
+      // JSON schema for structured outputs, see https://docs.ollama.com/capabilities/structured-outputs
+      format: params.format,
+      // Ollama has no tool_choice, the model decides whether to call a tool, see https://docs.ollama.com/capabilities/tool-calling
+      tools: toOpenAITools(params.tools),
+      keep_alive: generationOptions.keepAlive,
+      options: {
+        num_predict: params.maxTokens,
+        temperature: generationOptions.temperature,
+        seed: generationOptions.seed,
+        num_ctx: generationOptions.numCtx,
+      },
+    };
+  }
+
   override async listModels(): Promise<string[]> {
     try {
-      const response = await fetch(this.listModelsEndpoint);
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch models: ${response.statusText}`);
-      }
+      return await this.withRetry('listModels', this.listModelsEndpoint, async () => {
+        const response = await fetch(this.listModelsEndpoint);
+        
+        if (!response.ok) {
+          throw await this.createHttpError(response, this.listModelsEndpoint);
+        }
 
-      const data = await response.json() as { models: OllamaModel[] };
-      return (data.models || []).map((model) => model.name);
+        const data = await this.readJson<{ models: OllamaModel[] }>(response, this.listModelsEndpoint);
+        return (data.models || []).map((model) => model.name);
+      });
     } catch (error) {
-      console.error('Error listing Ollama models:', error);
+      this.getLogger().error('Error listing models', {
+        provider: this.providerName,
+        error: this.toProviderError(error, this.listModelsEndpoint),
+      });
       return [];
     }
   }
 
   override async isAvailable(): Promise<boolean> {
     try {
-      const response = await fetch(this.availabilityEndpoint, {
-        method: 'GET',
+      return await this.withRetry('isAvailable', this.availabilityEndpoint, async () => {
+        const response = await fetch(this.availabilityEndpoint, {
+          method: 'GET',
+        });
+        if (!response.ok) {
+          throw await this.createHttpError(response, this.availabilityEndpoint);
+        }
+        return true;
       });
-      return response.ok;
     } catch {
       return false;
     }
   }
 }
+
+/**
+ * Translates Ollama tool calls, whose arguments are objects, into the library's format
+ */
+function fromOllamaToolCalls(toolCalls: OllamaResponse['message']['tool_calls']): ToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+  return toolCalls.map(toolCall => ({
+    name: toolCall.function.name,
+    arguments: JSON.stringify(toolCall.function.arguments ?? {}),
+  }));
+}
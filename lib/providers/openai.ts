@@ -1,6 +1,8 @@
-import type { ChatRequest, ChatResponse } from '../core/types';
+import type { ChatRequest, ChatResponse, ChatStream, TokenUsage, ToolCall, ToolChoice, ToolDefinition } from '../core/types';
 import { RemoteAIProvider, type ProviderConfig } from '../providers/aiProvider';
-import { affConfig } from '../core/config';
+import { resolveProviderDefaults } from '../core/config';
+import { MalformedResponseError, ProviderHttpError } from '../core/errors';
+import { createTokenUsage } from '../utils/usage';
 
 
 /** 
@@ -15,7 +17,8 @@ export type  OpenAIResponse = {
     index: number;
     message: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: OpenAIToolCall[];
     };
     finish_reason: string;
   }>;
@@ -26,6 +29,34 @@ export type  OpenAIResponse = {
   };
 }
 
+/**
+ * A tool call in an OpenAI chat completion
+ */
+export type OpenAIToolCall = {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+/**
+ * A single server-sent event chunk of a streamed OpenAI chat completion
+ */
+export type OpenAIStreamChunk = {
+  model?: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  usage?: OpenAIResponse['usage'] | null;
+}
+
 /**
  * Provider implementation for OpenAI's API
  * 
@@ -41,15 +72,15 @@ export type  OpenAIResponse = {
 export class OpenAIProvider extends RemoteAIProvider {
   protected providerName: string = 'openai';
   protected supportsStructuredResponses: boolean = true;
+  protected supportsToolCalling: boolean = true;
   protected chatEndpoint: string;
   protected listModelsEndpoint: string;
   protected availabilityEndpoint: string;
 
   constructor(config?: ProviderConfig) {
     super({
-          apiEndpoint: config?.apiEndpoint || affConfig.openai.apiEndpoint,
-          model: config?.model || affConfig.openai.model,
-      timeout: config?.timeout || affConfig.timeout,
+      ...config,
+      ...resolveProviderDefaults('openai', config),
     });
     this.chatEndpoint = `${this.apiEndpoint}/${this.providerName}/chat`;
     this.listModelsEndpoint = `${this.apiEndpoint}/${this.providerName}/models`;
@@ -57,8 +88,15 @@ export class OpenAIProvider extends RemoteAIProvider {
   }
 
   override async chat(params: ChatRequest): Promise<ChatResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    return this.withRetry('chat', this.chatEndpoint, () => this.sendChat(params), params.signal);
+  }
+
+  /**
+   * Sends a single chat attempt
+   */
+  private async sendChat(params: ChatRequest): Promise<ChatResponse> {
+    const { signal: externalSignal, ...requestBody } = params;
+    const { signal, cleanup } = this.createRequestSignal(externalSignal);
     const requestEndpoint = this.chatEndpoint;
 
     try {
@@ -67,47 +105,115 @@ export class OpenAIProvider extends RemoteAIProvider {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(params),
-        signal: controller.signal,
+        body: JSON.stringify({ ...requestBody, ...this.resolveGenerationOptions(requestBody) }),
+        signal,
       });
 
-      const responseBody = await response.json() as OpenAIResponse;
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      const responseBody = await this.readJson<OpenAIResponse>(response, requestEndpoint);
+
+      this.getLogger().debug('Response body', { provider: this.providerName, model: this.selectedModel, responseBody });
 
-      if (affConfig.providerDebug)
-        console.log(`${this.providerName} response body:`, responseBody);
+      if (!responseBody?.choices?.[0]?.message) {
+        throw new MalformedResponseError(
+          `${this.providerName} response does not contain any choices`,
+          this.errorContext(requestEndpoint),
+        );
+      }
       
       return {
         content: responseBody.choices[0].message.content,
         model: responseBody.model,
-        finishReason: responseBody.choices[0].finish_reason
+        finishReason: responseBody.choices[0].finish_reason,
+        usage: createTokenUsage(
+          responseBody.usage?.prompt_tokens,
+          responseBody.usage?.completion_tokens,
+          responseBody.usage?.total_tokens,
+        ),
+        toolCalls: fromOpenAIToolCalls(responseBody.choices[0].message.tool_calls),
       }
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.name === 'AbortError') {
-          throw new Error(`${this.providerName} request timed out after ${this.timeout}ms`);
+      throw this.toProviderError(error, requestEndpoint, externalSignal);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Streams the response as server-sent events (`stream: true`).
+   * The proxy is expected to relay OpenAI's `data: {...}` chunks and the final `data: [DONE]`.
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    const { signal: externalSignal, ...requestBody } = params;
+    const release = await this.acquireRequestSlot(externalSignal);
+    const { signal, cleanup } = this.createRequestSignal(externalSignal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(requestEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({ ...requestBody, ...this.resolveGenerationOptions(requestBody), stream: true }),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      let usage: TokenUsage | undefined;
+      for await (const line of this.readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') break;
+
+        let chunk: OpenAIStreamChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch (error) {
+          throw new MalformedResponseError(
+            `${this.providerName} stream contains invalid JSON`,
+            this.errorContext(requestEndpoint, error),
+          );
         }
-        if (error.message.includes('fetch') || error.message.includes('Failed to fetch')) {
-          throw new Error(`Failed to connect to ${this.providerName}. Check your network connection.`);
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) yield content;
+        // Sent in a final chunk without choices, see `stream_options.include_usage`
+        if (chunk.usage) {
+          usage = createTokenUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens, chunk.usage.total_tokens);
         }
       }
-      throw error;
+      return usage;
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, externalSignal);
     } finally {
-      clearTimeout(timeoutId);
+      cleanup();
+      release();
     }
   }
 
   override async listModels(): Promise<string[]> {
     const responseEndpoint = this.listModelsEndpoint;
     try {
-      const response = await fetch(responseEndpoint, { method: 'POST' });
-      if (!response.ok) {
-        throw new Error(`${this.providerName} API error: ${response.status} ${response.statusText}`);
-      }
-      const responseBody = await response.json();
-      return responseBody.models as string[];
+      return await this.withRetry('listModels', this.listModelsEndpoint, async () => {
+        const response = await fetch(responseEndpoint, { method: 'POST' });
+        if (!response.ok) {
+          throw await this.createHttpError(response, responseEndpoint);
+        }
+        const responseBody = await this.readJson<{ models: string[] }>(response, responseEndpoint);
+        return responseBody.models;
+      });
     } catch (error) {
-      if (affConfig.providerDebug)
-        throw new Error(`Error fetching models from ${this.providerName}: ${error}`);
+      this.getLogger().error('Error listing models', {
+        provider: this.providerName,
+        error: this.toProviderError(error, responseEndpoint),
+      });
       return [];
     }
   }
@@ -116,12 +222,51 @@ export class OpenAIProvider extends RemoteAIProvider {
     const responseEndpoint = this.availabilityEndpoint;
 
     try {
-      const response = await fetch(responseEndpoint, { method: 'POST' });
-      return response.ok;
+      return await this.withRetry('isAvailable', this.availabilityEndpoint, async () => {
+        const response = await fetch(responseEndpoint, { method: 'POST' });
+        if (!response.ok) {
+          throw await this.createHttpError(response, responseEndpoint);
+        }
+        return true;
+      });
     } catch (error) {
-      if (affConfig.providerDebug)
-        throw error;
+      if (error instanceof ProviderHttpError) return false;
+      this.getLogger().warn('Availability check failed', {
+        provider: this.providerName,
+        error: this.toProviderError(error, responseEndpoint),
+      });
       return false;
-    } 
+    }
   }
 }
+
+/**
+ * Translates tool definitions into OpenAI's `tools` format
+ */
+export function toOpenAITools(tools?: ToolDefinition[]): Array<Record<string, unknown>> | undefined {
+  if (!tools?.length) return undefined;
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+/**
+ * Translates a tool choice into OpenAI's `tool_choice` format
+ */
+export function toOpenAIToolChoice(toolChoice?: ToolChoice): string | Record<string, unknown> | undefined {
+  if (!toolChoice || typeof toolChoice === 'string') return toolChoice;
+  return { type: 'function', function: { name: toolChoice.name } };
+}
+
+/**
+ * Translates OpenAI tool calls into the library's format
+ */
+export function fromOpenAIToolCalls(toolCalls?: OpenAIToolCall[]): ToolCall[] | undefined {
+  if (!toolCalls?.length) return undefined;
+  return toolCalls.map(toolCall => ({
+    id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: toolCall.function.arguments,
+  }));
+}
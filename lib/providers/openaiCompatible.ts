@@ -0,0 +1,291 @@
+/**
+ * OpenAI-compatible provider implementation
+ *
+ * Talks directly to any server that implements the OpenAI `/v1/chat/completions`
+ * and `/v1/models` protocol: OpenAI itself, LM Studio, vLLM, llama.cpp server,
+ * LocalAI or Azure OpenAI deployments. No proxy is needed, but the API key is
+ * sent from wherever the provider runs, so only use remote keys server-side.
+ */
+
+import { resolveProviderDefaults } from '../core/config';
+import { MalformedResponseError } from '../core/errors';
+import type { ChatRequest, ChatResponse, ChatStream, TokenUsage } from '../core/types';
+import { AIProvider, type ProviderConfig, type ProviderType } from './aiProvider';
+import {
+  fromOpenAIToolCalls,
+  toOpenAIToolChoice,
+  toOpenAITools,
+  type OpenAIResponse,
+  type OpenAIStreamChunk,
+} from './openai';
+import { createTokenUsage } from '../utils/usage';
+
+/**
+ * Configuration options for the OpenAICompatibleProvider
+ *
+ * @param apiKey - API key, sent as `Authorization: Bearer <apiKey>` unless `apiKeyHeader` is set
+ * @param apiKeyHeader - Header that carries the raw API key instead, e.g. `'api-key'` for Azure
+ * @param headers - Additional headers sent with every request
+ * @param queryParams - Query parameters appended to every request, e.g. `{ 'api-version': '2024-10-21' }` for Azure
+ * @param name - Provider name used in logs and errors (default: 'openai-compatible')
+ * @param providerType - `'local'` for servers on the user's machine like LM Studio (default: 'remote')
+ * @param structuredOutput - Send the form schema as `response_format: json_schema` (default: true)
+ * @param toolCalls - Send `ChatRequest.tools` as `tools` and read `tool_calls` (default: true)
+ */
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  apiKeyHeader?: string;
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
+  name?: string;
+  providerType?: ProviderType;
+  structuredOutput?: boolean;
+  toolCalls?: boolean;
+}
+
+/**
+ * A model entry of the `/v1/models` response
+ */
+export type OpenAIModel = {
+  id: string;
+  object?: string;
+  owned_by?: string;
+}
+
+/**
+ * Provider implementation for the OpenAI chat completions protocol
+ *
+ * Unlike {@link OpenAIProvider}, which talks to this project's proxy, requests are
+ * translated into the real API format (`max_tokens`, `response_format`, ...).
+ *
+ * @example LM Studio
+ * ```typescript
+ * const provider = new OpenAICompatibleProvider({
+ *   apiEndpoint: 'http://localhost:1234/v1',
+ *   model: 'qwen2.5-7b-instruct',
+ *   providerType: 'local',
+ * });
+ * ```
+ *
+ * @example Azure OpenAI
+ * ```typescript
+ * const provider = new OpenAICompatibleProvider({
+ *   apiEndpoint: 'https://my-resource.openai.azure.com/openai/deployments/gpt-4o',
+ *   apiKey: process.env.AZURE_OPENAI_KEY,
+ *   apiKeyHeader: 'api-key',
+ *   queryParams: { 'api-version': '2024-10-21' },
+ * });
+ * ```
+ * @see {@link https://platform.openai.com/docs/api-reference/chat | OpenAI Chat Completions API}
+ */
+export class OpenAICompatibleProvider extends AIProvider {
+  protected providerName: string;
+  readonly providerType: ProviderType;
+  protected chatEndpoint: string;
+  protected listModelsEndpoint: string;
+  protected availabilityEndpoint: string;
+
+  private apiKey?: string;
+  private apiKeyHeader?: string;
+  private headers: Record<string, string>;
+  private queryParams?: Record<string, string>;
+
+  constructor(config?: OpenAICompatibleConfig) {
+    super({
+      ...config,
+      ...resolveProviderDefaults('openaiCompatible', config),
+    });
+    this.providerName = config?.name || 'openai-compatible';
+    this.providerType = config?.providerType ?? 'remote';
+    this.supportsStructuredResponses = config?.structuredOutput ?? true;
+    this.supportsToolCalling = config?.toolCalls ?? true;
+    this.apiKey = config?.apiKey;
+    this.apiKeyHeader = config?.apiKeyHeader;
+    this.headers = config?.headers ?? {};
+    this.queryParams = config?.queryParams;
+
+    const baseUrl = this.apiEndpoint.replace(/\/+$/, '');
+    this.chatEndpoint = config?.chatEndpoint || `${baseUrl}/chat/completions`;
+    this.listModelsEndpoint = config?.listModelsEndpoint || `${baseUrl}/models`;
+    this.availabilityEndpoint = config?.availabilityEndpoint || this.listModelsEndpoint;
+  }
+
+  override async chat(params: ChatRequest): Promise<ChatResponse> {
+    return this.withRetry('chat', this.chatEndpoint, () => this.sendChat(params), params.signal);
+  }
+
+  /**
+   * Sends a single chat attempt
+   */
+  private async sendChat(params: ChatRequest): Promise<ChatResponse> {
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(this.buildUrl(requestEndpoint), {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify(this.buildRequestBody(params, false)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      const responseBody = await this.readJson<OpenAIResponse>(response, requestEndpoint);
+
+      this.getLogger().debug('Response body', { provider: this.providerName, model: this.selectedModel, responseBody });
+
+      if (!responseBody?.choices?.[0]?.message) {
+        throw new MalformedResponseError(
+          `${this.providerName} response does not contain any choices`,
+          this.errorContext(requestEndpoint),
+        );
+      }
+
+      return {
+        content: responseBody.choices[0].message.content,
+        model: responseBody.model,
+        finishReason: responseBody.choices[0].finish_reason,
+        usage: createTokenUsage(
+          responseBody.usage?.prompt_tokens,
+          responseBody.usage?.completion_tokens,
+          responseBody.usage?.total_tokens,
+        ),
+        toolCalls: fromOpenAIToolCalls(responseBody.choices[0].message.tool_calls),
+      };
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+    }
+  }
+
+  /**
+   * Streams the response as server-sent events (`stream: true`)
+   */
+  override async *chatStream(params: ChatRequest): ChatStream {
+    const release = await this.acquireRequestSlot(params.signal);
+    const { signal, cleanup } = this.createRequestSignal(params.signal);
+    const requestEndpoint = this.chatEndpoint;
+
+    try {
+      const response = await fetch(this.buildUrl(requestEndpoint), {
+        method: 'POST',
+        headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+        body: JSON.stringify(this.buildRequestBody(params, true)),
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createHttpError(response, requestEndpoint);
+      }
+
+      let usage: TokenUsage | undefined;
+      for await (const line of this.readLines(response)) {
+        if (!line.startsWith('data:')) continue;
+        const data = line.slice('data:'.length).trim();
+        if (data === '[DONE]') break;
+
+        let chunk: OpenAIStreamChunk;
+        try {
+          chunk = JSON.parse(data);
+        } catch (error) {
+          throw new MalformedResponseError(
+            `${this.providerName} stream contains invalid JSON`,
+            this.errorContext(requestEndpoint, error),
+          );
+        }
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) yield content;
+        // Sent in a final chunk without choices, see `stream_options.include_usage`
+        if (chunk.usage) {
+          usage = createTokenUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens, chunk.usage.total_tokens);
+        }
+      }
+      return usage;
+    } catch (error) {
+      throw this.toProviderError(error, requestEndpoint, params.signal);
+    } finally {
+      cleanup();
+      release();
+    }
+  }
+
+  override async listModels(): Promise<string[]> {
+    const requestEndpoint = this.listModelsEndpoint;
+
+    try {
+      return await this.withRetry('listModels', requestEndpoint, async () => {
+        const response = await fetch(this.buildUrl(requestEndpoint), { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        const responseBody = await this.readJson<{ data: OpenAIModel[] }>(response, requestEndpoint);
+        return (responseBody.data || []).map((model) => model.id);
+      });
+    } catch (error) {
+      this.getLogger().error('Error listing models', { provider: this.providerName, error });
+      return [];
+    }
+  }
+
+  override async isAvailable(): Promise<boolean> {
+    const requestEndpoint = this.availabilityEndpoint;
+
+    try {
+      return await this.withRetry('isAvailable', requestEndpoint, async () => {
+        const response = await fetch(this.buildUrl(requestEndpoint), { headers: this.buildHeaders() });
+        if (!response.ok) {
+          throw await this.createHttpError(response, requestEndpoint);
+        }
+        return true;
+      });
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Translates a ChatRequest into a chat completions request body
+   */
+  private buildRequestBody(params: ChatRequest, stream: boolean): Record<string, unknown> {
+    const generationOptions = this.resolveGenerationOptions(params);
+    return {
+      model: params.model,
+      messages: params.messages,
+      stream,
+      stream_options: stream ? { include_usage: true } : undefined,
+      max_tokens: params.maxTokens,
+      temperature: generationOptions.temperature,
+      seed: generationOptions.seed,
+      // See https://platform.openai.com/docs/guides/structured-outputs
+      response_format: params.format
+        ? { type: 'json_schema', json_schema: { name: 'form_values', schema: params.format } }
+        : undefined,
+      tools: this.supportsToolCalling ? toOpenAITools(params.tools) : undefined,
+      tool_choice: this.supportsToolCalling && params.tools?.length ? toOpenAIToolChoice(params.toolChoice) : undefined,
+    };
+  }
+
+  /**
+   * Returns the JSON, authentication and custom headers
+   */
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      if (this.apiKeyHeader) headers[this.apiKeyHeader] = this.apiKey;
+      else headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return { ...headers, ...this.headers };
+  }
+
+  /**
+   * Appends the configured query parameters to an endpoint
+   */
+  private buildUrl(endpoint: string): string {
+    if (!this.queryParams || Object.keys(this.queryParams).length === 0) return endpoint;
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return endpoint + separator + new URLSearchParams(this.queryParams).toString();
+  }
+}
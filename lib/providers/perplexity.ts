@@ -1,6 +1,6 @@
 import { OpenAIProvider, type OpenAIResponse } from './openai.ts';
 import { type ProviderConfig } from '../providers/aiProvider';
-import { affConfig } from '../core/config';
+import { resolveProviderDefaults } from '../core/config';
 
 /**
  * Perplexitys Response structure is similar to OpenAI's
@@ -15,12 +15,13 @@ export type PerplexityResponse = OpenAIResponse;
 export class PerplexityProvider extends OpenAIProvider {
   
   protected override providerName: string = 'perplexity';
+  // The Perplexity API does not support function calling
+  protected override supportsToolCalling: boolean = false;
 
   constructor(config?: ProviderConfig) {
     super({
-      apiEndpoint: config?.apiEndpoint || affConfig.perplexity.apiEndpoint,
-      model: config?.model || affConfig.perplexity.model,
-      timeout: config?.timeout || affConfig.timeout,
+      ...config,
+      ...resolveProviderDefaults('perplexity', config),
     });
     // Override endpoints for Perplexity
     this.chatEndpoint = `${this.apiEndpoint}/${this.providerName}/chat`;
@@ -0,0 +1,123 @@
+/**
+ * Provider registry
+ *
+ * Maps provider names to factories, so providers can be selected by name in the
+ * `AIFormFill` constructor and with `data-aff-provider` in `initializeAFFQuick`.
+ * Names are case-insensitive. The built-in providers are registered on import.
+ */
+
+import { AIFormFillError } from '../core/errors';
+import { resolveProviderDefaults, type ConfigurableProvider } from '../core/config';
+import type { AIProvider, ProviderConfig } from './aiProvider';
+import { LocalOllamaProvider } from './localOllama';
+import { OpenAIProvider } from './openai';
+import { PerplexityProvider } from './perplexity';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openaiCompatible';
+
+/**
+ * Creates a provider from the merged default and instance configuration
+ */
+export type ProviderFactory = (config: ProviderConfig) => AIProvider;
+
+/**
+ * A registered provider
+ *
+ * @param name - Normalized (lowercase) provider name
+ * @param factory - Creates the provider
+ * @param defaultConfig - Configuration used for options that are not set when the provider is created
+ */
+export type ProviderRegistration = {
+  name: string;
+  factory: ProviderFactory;
+  defaultConfig: ProviderConfig;
+}
+
+/**
+ * A registration as stored. Built-in providers resolve their defaults from `affConfig`
+ * when read, so later changes of the global configuration are listed and applied.
+ */
+type StoredRegistration = Omit<ProviderRegistration, 'defaultConfig'> & {
+  defaultConfig: () => ProviderConfig;
+}
+
+const registry = new Map<string, StoredRegistration>();
+
+/**
+ * Registers a provider under a name, replacing any provider registered under the same name
+ *
+ * @example
+ * ```typescript
+ * registerProvider('in-house', (config) => new InHouseProvider(config), {
+ *   apiEndpoint: 'https://llm.internal.example.com',
+ *   model: 'extractor-v2',
+ * });
+ *
+ * const aiForm = new AIFormFill('in-house');
+ * ```
+ */
+export function registerProvider(name: string, factory: ProviderFactory, defaultConfig: ProviderConfig = {}): void {
+  const normalizedName = normalizeProviderName(name);
+  if (!normalizedName) {
+    throw new AIFormFillError('Provider name must not be empty');
+  }
+  const storedConfig = { ...defaultConfig };
+  registry.set(normalizedName, { name: normalizedName, factory, defaultConfig: () => storedConfig });
+}
+
+/**
+ * Removes a registered provider
+ *
+ * @returns true if a provider was registered under the name
+ */
+export function unregisterProvider(name: string): boolean {
+  return registry.delete(normalizeProviderName(name));
+}
+
+/**
+ * Lists all registered providers in registration order
+ */
+export function listProviders(): ProviderRegistration[] {
+  return [...registry.values()].map(registration => ({
+    ...registration,
+    defaultConfig: { ...registration.defaultConfig() },
+  }));
+}
+
+/**
+ * Creates a registered provider by name
+ *
+ * Options of `config` that are set take precedence over the registration's default configuration.
+ *
+ * @throws {AIFormFillError} If no provider is registered under the name
+ */
+export function createProvider(name: string, config?: ProviderConfig): AIProvider {
+  const registration = registry.get(normalizeProviderName(name));
+  if (!registration) {
+    const registered = [...registry.keys()].join(', ');
+    throw new AIFormFillError(`Unknown provider "${name}". Registered providers: ${registered || 'none'}`);
+  }
+
+  const setOptions = Object.fromEntries(
+    Object.entries(config ?? {}).filter(([, value]) => value !== undefined && value !== ''),
+  );
+  return registration.factory({ ...registration.defaultConfig(), ...setOptions });
+}
+
+/** Normalizes a provider name for lookup. */
+function normalizeProviderName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/** Registers a built-in provider with its endpoint and model from `affConfig`. */
+function registerBuiltIn(name: string, factory: ProviderFactory, configKey: ConfigurableProvider): void {
+  registry.set(name, { name, factory, defaultConfig: () => ({ ...resolveProviderDefaults(configKey) }) });
+}
+
+registerBuiltIn('ollama', (config) => new LocalOllamaProvider(config), 'ollama');
+registerBuiltIn('openai', (config) => new OpenAIProvider(config), 'openai');
+registerBuiltIn('perplexity', (config) => new PerplexityProvider(config), 'perplexity');
+registerBuiltIn('anthropic', (config) => new AnthropicProvider(config), 'anthropic');
+registerBuiltIn('gemini', (config) => new GeminiProvider(config), 'gemini');
+registerBuiltIn('openai-compatible', (config) => new OpenAICompatibleProvider(config), 'openaiCompatible');
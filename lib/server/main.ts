@@ -0,0 +1,12 @@
+/**
+ * Server entry point (`ai-form-fill/server`)
+ *
+ * Kept separate from the browser bundle, since it handles API keys and is only meant to run on a server.
+ */
+
+export { createProxyHandler, PROXY_UPSTREAM_DEFAULTS } from './proxyHandler';
+export type { ProxyHandler, ProxyHandlerOptions, ProxyUpstream, ApiKeyResolver } from './proxyHandler';
+export { toNodeListener, toExpressMiddleware } from './node';
+export type { NodeRequestLike, NodeResponseLike, NodeRequestListener, ExpressMiddleware } from './node';
+export { createConsoleLogger, createCallbackLogger } from '../utils/logger';
+export type { Logger, LogLevel, LogContext, LogEntry } from '../utils/logger';
@@ -0,0 +1,210 @@
+/**
+ * Node adapters for the proxy handler
+ *
+ * Translate between Node's `http` request/response objects and the Fetch `Request`/`Response`
+ * of a {@link ProxyHandler}. The request and response types are structural, so the adapters
+ * work with `http`, `https` and `http2` compatibility servers and with Express-style
+ * frameworks without depending on their type packages.
+ */
+
+import type { ProxyHandler } from './proxyHandler';
+
+/**
+ * The parts of Node's `IncomingMessage` the adapters use
+ *
+ * @param body - Set by body-parsing middleware such as `express.json()`; used instead of the stream
+ *   once the stream was read
+ * @param readableEnded - True once the stream was read, e.g. by body-parsing middleware
+ */
+export type NodeRequestLike = AsyncIterable<Uint8Array | string> & {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+  readableEnded?: boolean;
+}
+
+/**
+ * The parts of Node's `ServerResponse` the adapters use
+ */
+export type NodeResponseLike = {
+  statusCode: number;
+  headersSent?: boolean;
+  writableEnded?: boolean;
+  setHeader(name: string, value: string | string[]): unknown;
+  write(chunk: Uint8Array): boolean;
+  end(): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  once(event: 'close' | 'drain', listener: () => void): unknown;
+  off(event: 'close' | 'drain', listener: () => void): unknown;
+}
+
+/**
+ * Node request listener, as passed to `http.createServer`
+ */
+export type NodeRequestListener = (request: NodeRequestLike, response: NodeResponseLike) => Promise<void>;
+
+/**
+ * Express-style middleware
+ */
+export type ExpressMiddleware = (
+  request: NodeRequestLike,
+  response: NodeResponseLike,
+  next: (error?: unknown) => void,
+) => void;
+
+/**
+ * Creates a listener for Node's `http.createServer`
+ *
+ * Errors of the handler are answered with a 500 response.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { createProxyHandler, toNodeListener } from 'ai-form-fill/server';
+ *
+ * const handler = createProxyHandler({
+ *   basePath: '/api',
+ *   providers: { openai: { apiKey: process.env.OPENAI_API_KEY! } },
+ * });
+ * createServer(toNodeListener(handler)).listen(3000);
+ * ```
+ */
+export function toNodeListener(handler: ProxyHandler): NodeRequestListener {
+  return async (request, response) => {
+    try {
+      await writeFetchResponse(await handler(toFetchRequest(request, response)), response);
+    } catch {
+      if (response.headersSent) {
+        if (!response.writableEnded) response.end();
+        return;
+      }
+      response.statusCode = 500;
+      response.setHeader('Content-Type', 'application/json');
+      response.write(new TextEncoder().encode(JSON.stringify({ error: { message: 'Internal server error' } })));
+      response.end();
+    }
+  };
+}
+
+/**
+ * Creates Express-style middleware
+ *
+ * Mount it under the path the client's `apiEndpoint` points to; Express removes the mount
+ * path from `request.url`, so the handler needs no `basePath`. Bodies that were already
+ * read by `express.json()` are forwarded as parsed. Errors are passed to `next`.
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { createProxyHandler, toExpressMiddleware } from 'ai-form-fill/server';
+ *
+ * const app = express();
+ * app.use('/api', toExpressMiddleware(createProxyHandler({
+ *   providers: { openai: { apiKey: process.env.OPENAI_API_KEY!, models: ['gpt-5-nano'] } },
+ * })));
+ * ```
+ */
+export function toExpressMiddleware(handler: ProxyHandler): ExpressMiddleware {
+  return (request, response, next) => {
+    Promise.resolve()
+      .then(() => handler(toFetchRequest(request, response)))
+      .then(fetchResponse => writeFetchResponse(fetchResponse, response))
+      .catch(next);
+  };
+}
+
+/**
+ * Builds a Fetch request from a Node request. The request's signal aborts when the client
+ * disconnects before the response is complete.
+ */
+function toFetchRequest(request: NodeRequestLike, response: NodeResponseLike): Request {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (Array.isArray(value)) value.forEach(item => headers.append(name, item));
+    else if (value !== undefined) headers.set(name, value);
+  }
+
+  const controller = new AbortController();
+  response.on('close', () => {
+    if (!response.writableEnded) controller.abort();
+  });
+
+  const method = request.method ?? 'GET';
+  const hasBody = method !== 'GET' && method !== 'HEAD';
+  const parsedBody = hasBody && request.readableEnded ? serializeParsedBody(request.body) : undefined;
+  if (parsedBody !== undefined) headers.delete('Content-Length');
+
+  const init: RequestInit & { duplex?: 'half' } = {
+    method,
+    headers,
+    signal: controller.signal,
+    body: hasBody ? parsedBody ?? toReadableStream(request) : undefined,
+    // Required by Node's fetch for streamed request bodies
+    duplex: hasBody && parsedBody === undefined ? 'half' : undefined,
+  };
+  return new Request(new URL(request.url ?? '/', `http://${headers.get('Host') ?? 'localhost'}`), init);
+}
+
+/** Serializes a body that was already parsed by middleware; undefined if there is none. */
+function serializeParsedBody(body: unknown): string | undefined {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') return body;
+  if (body instanceof Uint8Array) return new TextDecoder().decode(body);
+  return JSON.stringify(body);
+}
+
+/** Wraps a Node request stream as a web ReadableStream. */
+function toReadableStream(source: AsyncIterable<Uint8Array | string>): ReadableStream<Uint8Array> {
+  const iterator = source[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(typeof value === 'string' ? encoder.encode(value) : value);
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Writes status, headers and the (possibly streamed) body of a Fetch response. Waits for
+ * the response to drain when its buffer is full.
+ */
+async function writeFetchResponse(fetchResponse: Response, response: NodeResponseLike): Promise<void> {
+  response.statusCode = fetchResponse.status;
+  fetchResponse.headers.forEach((value, name) => {
+    response.setHeader(name, value);
+  });
+
+  if (fetchResponse.body) {
+    const reader = fetchResponse.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (!response.write(value)) await waitForDrain(response);
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+  response.end();
+}
+
+/** Resolves once the response can take more data or the connection is closed. */
+function waitForDrain(response: NodeResponseLike): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      response.off('drain', done);
+      response.off('close', done);
+      resolve();
+    };
+    response.once('drain', done);
+    response.once('close', done);
+  });
+}
@@ -0,0 +1,424 @@
+/**
+ * Server proxy handler
+ *
+ * Implements the `/{provider}/chat`, `/{provider}/models` and `/{provider}/available`
+ * endpoints that {@link OpenAIProvider} and {@link PerplexityProvider} call, on top of the
+ * standard Fetch `Request`/`Response`. The handler runs on any runtime with Fetch support
+ * (Node 18+, Deno, Bun, edge functions); see `./node` for Node http and Express adapters.
+ *
+ * API keys only exist on the server. Requests are checked against a model allowlist,
+ * a max-token cap and a request-size limit before they are forwarded to the upstream
+ * chat completions API.
+ */
+
+import type { ChatMessage, ChatRequest } from '../core/types';
+import { AIFormFillError } from '../core/errors';
+import { silentLogger, type Logger } from '../utils/logger';
+import { toOpenAIToolChoice, toOpenAITools } from '../providers/openai';
+import type { OpenAIModel } from '../providers/openaiCompatible';
+
+/**
+ * Returns the API key for a request, e.g. from an environment variable or a secret store.
+ * Returning undefined reports the provider as unavailable.
+ */
+export type ApiKeyResolver = (request: Request) => string | undefined | Promise<string | undefined>;
+
+/**
+ * An upstream API served by the proxy
+ *
+ * @param apiKey - API key or a function that resolves it per request
+ * @param baseUrl - Base URL of the OpenAI-compatible API (default: from {@link PROXY_UPSTREAM_DEFAULTS})
+ * @param models - Allowlist of models; the first one is used when a request does not name a model.
+ *   `/models` lists these instead of asking the upstream API.
+ * @param maxTokens - Upper bound for the generated tokens of a request (default: `ProxyHandlerOptions.maxTokens`)
+ * @param maxTokensParameter - Name of the token limit in the upstream request (default: `'max_tokens'`)
+ * @param structuredOutput - Forward the form schema as `response_format: json_schema` (default: true)
+ * @param toolCalls - Forward `tools` and `toolChoice` (default: true)
+ * @param headers - Additional headers sent to the upstream API
+ */
+export type ProxyUpstream = {
+  apiKey: string | ApiKeyResolver;
+  baseUrl?: string;
+  models?: string[];
+  maxTokens?: number;
+  maxTokensParameter?: 'max_tokens' | 'max_completion_tokens';
+  structuredOutput?: boolean;
+  toolCalls?: boolean;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options of {@link createProxyHandler}
+ *
+ * @param providers - Upstream APIs by provider name, e.g. `{ openai: { apiKey: process.env.OPENAI_API_KEY } }`
+ * @param basePath - Path prefix of the routes, e.g. `'/api'` to match the default `apiEndpoint` (default: '')
+ * @param maxBodySize - Maximum size of a request body in bytes (default: 100 000)
+ * @param maxTokens - Default token cap of all providers
+ * @param timeout - Time in ms until the upstream API must send its response headers; streamed bodies may take longer (default: 60 000)
+ * @param logger - Receives upstream failures and a message per proxied request (default: silent)
+ */
+export type ProxyHandlerOptions = {
+  providers: Record<string, ProxyUpstream>;
+  basePath?: string;
+  maxBodySize?: number;
+  maxTokens?: number;
+  timeout?: number;
+  logger?: Logger;
+}
+
+/**
+ * Handles a proxy request. Always resolves with a response; unknown routes get a 404.
+ */
+export type ProxyHandler = (request: Request) => Promise<Response>;
+
+/**
+ * Defaults for well-known upstream APIs, applied by provider name
+ */
+export const PROXY_UPSTREAM_DEFAULTS: Readonly<Record<string, Partial<ProxyUpstream>>> = Object.freeze({
+  openai: { baseUrl: 'https://api.openai.com/v1', maxTokensParameter: 'max_completion_tokens' },
+  perplexity: { baseUrl: 'https://api.perplexity.ai', toolCalls: false },
+});
+
+const DEFAULT_MAX_BODY_SIZE = 100_000;
+const DEFAULT_UPSTREAM_TIMEOUT = 60_000;
+const ROUTE_PATTERN = /^\/([^/]+)\/(chat|models|available)\/?$/;
+/** Upstream response headers that are passed on to the client */
+const FORWARDED_HEADERS = ['content-type', 'retry-after', 'x-request-id'];
+
+/**
+ * A request that is answered with an error response instead of being forwarded
+ */
+class ProxyRequestError extends AIFormFillError {
+  readonly status: number;
+  readonly headers?: Record<string, string>;
+
+  constructor(status: number, message: string, headers?: Record<string, string>) {
+    super(message);
+    this.name = 'ProxyRequestError';
+    this.status = status;
+    this.headers = headers;
+  }
+}
+
+/**
+ * Creates a handler that proxies the provider routes to the configured upstream APIs
+ *
+ * @example Fetch runtimes (Deno, Bun, edge functions)
+ * ```typescript
+ * import { createProxyHandler } from 'ai-form-fill/server';
+ *
+ * const handler = createProxyHandler({
+ *   basePath: '/api',
+ *   maxTokens: 2000,
+ *   providers: {
+ *     openai: { apiKey: process.env.OPENAI_API_KEY!, models: ['gpt-5-nano', 'gpt-4o-mini'] },
+ *     perplexity: { apiKey: () => secrets.get('perplexity'), models: ['sonar'] },
+ *   },
+ * });
+ *
+ * Deno.serve(handler);
+ * ```
+ */
+export function createProxyHandler(options: ProxyHandlerOptions): ProxyHandler {
+  const upstreams = new Map<string, ProxyUpstream>();
+  for (const [name, upstream] of Object.entries(options.providers)) {
+    const normalizedName = name.trim().toLowerCase();
+    const resolved = { ...PROXY_UPSTREAM_DEFAULTS[normalizedName], ...upstream };
+    if (!resolved.baseUrl) {
+      throw new AIFormFillError(`Proxy provider "${name}" needs a baseUrl`);
+    }
+    upstreams.set(normalizedName, resolved);
+  }
+
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const logger = options.logger ?? silentLogger;
+
+  return async (request: Request): Promise<Response> => {
+    const { pathname } = new URL(request.url);
+    const route = pathname.startsWith(basePath) ? ROUTE_PATTERN.exec(pathname.slice(basePath.length)) : null;
+    const upstream = route && upstreams.get(route[1].toLowerCase());
+    if (!route || !upstream) {
+      return errorResponse(new ProxyRequestError(404, 'Not found'));
+    }
+
+    const [, providerName, operation] = route;
+    const context: RouteContext = { request, upstream, provider: providerName.toLowerCase(), options, logger };
+    try {
+      if (operation === 'chat') {
+        assertMethod(request, ['POST']);
+        return await handleChat(context);
+      }
+      assertMethod(request, ['GET', 'POST']);
+      return operation === 'models' ? await handleModels(context) : await handleAvailable(context);
+    } catch (error) {
+      if (error instanceof ProxyRequestError) return errorResponse(error);
+      logger.error('Proxy request failed', { provider: context.provider, error });
+      return errorResponse(new ProxyRequestError(502, 'Upstream request failed'));
+    }
+  };
+}
+
+/**
+ * Body of a chat request as sent by {@link OpenAIProvider}
+ */
+type ProxyChatRequest = ChatRequest & { stream?: boolean };
+
+/**
+ * Everything a route needs to answer a request
+ */
+type RouteContext = {
+  request: Request;
+  upstream: ProxyUpstream;
+  provider: string;
+  options: ProxyHandlerOptions;
+  logger: Logger;
+}
+
+/**
+ * Validates a chat request, applies the limits and forwards it to `/chat/completions`.
+ * Streaming requests are answered with the upstream server-sent events.
+ */
+async function handleChat({ request, upstream, provider, options, logger }: RouteContext): Promise<Response> {
+  const apiKey = await requireApiKey(request, upstream);
+  const chatRequest = parseChatRequest(await readBody(request, options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE));
+  const stream = chatRequest.stream === true;
+  const model = resolveModel(chatRequest.model, upstream);
+  const maxTokens = resolveMaxTokens(chatRequest.maxTokens, upstream.maxTokens ?? options.maxTokens);
+
+  const body: Record<string, unknown> = {
+    model,
+    messages: chatRequest.messages.map(({ role, content }) => ({ role, content })),
+    stream,
+    // Adds a final chunk with the token usage to streamed responses
+    stream_options: stream ? { include_usage: true } : undefined,
+    [upstream.maxTokensParameter ?? 'max_tokens']: maxTokens,
+    temperature: chatRequest.temperature,
+    seed: chatRequest.seed,
+  };
+  if (chatRequest.format && upstream.structuredOutput !== false) {
+    body.response_format = { type: 'json_schema', json_schema: { name: 'form_values', schema: chatRequest.format } };
+  }
+  if (chatRequest.tools?.length && upstream.toolCalls !== false) {
+    body.tools = toOpenAITools(chatRequest.tools);
+    body.tool_choice = toOpenAIToolChoice(chatRequest.toolChoice);
+  }
+
+  const startedAt = Date.now();
+  const response = await fetchUpstream(request, upstream, apiKey, '/chat/completions', options.timeout, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+  const duration = Date.now() - startedAt;
+
+  if (!response.ok) {
+    return upstreamErrorResponse(response, { provider, model, duration }, logger);
+  }
+  logger.info('Proxied chat request', { provider, model, duration, stream });
+  return new Response(response.body, {
+    status: response.status,
+    headers: stream
+      ? { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+      : pickHeaders(response.headers),
+  });
+}
+
+/**
+ * Lists the allowed models, or the upstream models if no allowlist is configured
+ */
+async function handleModels({ request, upstream, provider, options, logger }: RouteContext): Promise<Response> {
+  if (upstream.models) {
+    return Response.json({ models: upstream.models });
+  }
+
+  const apiKey = await requireApiKey(request, upstream);
+  const response = await fetchUpstream(request, upstream, apiKey, '/models', options.timeout, { method: 'GET' });
+  if (!response.ok) {
+    return upstreamErrorResponse(response, { provider }, logger);
+  }
+  const responseBody = await response.json() as { data?: OpenAIModel[] };
+  return Response.json({ models: (responseBody.data ?? []).map(model => model.id) });
+}
+
+/**
+ * Reports the provider as available if an API key can be resolved. Does not call the upstream API.
+ */
+async function handleAvailable({ request, upstream }: RouteContext): Promise<Response> {
+  await requireApiKey(request, upstream);
+  return Response.json({ available: true });
+}
+
+/** Rejects requests with a method the route does not accept. */
+function assertMethod(request: Request, allowed: string[]): void {
+  if (!allowed.includes(request.method.toUpperCase())) {
+    throw new ProxyRequestError(405, `Method ${request.method} not allowed`, { Allow: allowed.join(', ') });
+  }
+}
+
+/** Resolves the API key of an upstream, reporting the provider as unavailable without one. */
+async function requireApiKey(request: Request, upstream: ProxyUpstream): Promise<string> {
+  const apiKey = typeof upstream.apiKey === 'function' ? await upstream.apiKey(request) : upstream.apiKey;
+  if (!apiKey) {
+    throw new ProxyRequestError(503, 'Provider is not configured');
+  }
+  return apiKey;
+}
+
+/**
+ * Reads the request body as text, rejecting it with 413 once it exceeds `maxBodySize` bytes.
+ * The declared Content-Length is checked before anything is read.
+ */
+async function readBody(request: Request, maxBodySize: number): Promise<string> {
+  const tooLarge = new ProxyRequestError(413, `Request body exceeds ${maxBodySize} bytes`);
+  const contentLength = Number(request.headers.get('Content-Length'));
+  if (contentLength > maxBodySize) throw tooLarge;
+  if (!request.body) return '';
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > maxBodySize) {
+        await reader.cancel();
+        throw tooLarge;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return text + decoder.decode();
+}
+
+/** Parses and validates the body of a chat request. */
+function parseChatRequest(body: string): ProxyChatRequest {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new ProxyRequestError(400, 'Request body is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ProxyRequestError(400, 'Request body must be a JSON object');
+  }
+
+  const request = parsed as ProxyChatRequest;
+  if (!Array.isArray(request.messages) || request.messages.length === 0 || !request.messages.every(isChatMessage)) {
+    throw new ProxyRequestError(400, 'messages must be a non-empty array of { role, content } objects');
+  }
+  if (request.model !== undefined && typeof request.model !== 'string') {
+    throw new ProxyRequestError(400, 'model must be a string');
+  }
+  return request;
+}
+
+/** True if the value is a chat message with a known role and text content. */
+function isChatMessage(message: unknown): message is ChatMessage {
+  const { role, content } = (message ?? {}) as Partial<ChatMessage>;
+  return (role === 'system' || role === 'user' || role === 'assistant') && typeof content === 'string';
+}
+
+/** Returns the requested model if it is allowed, or the first allowed model if none is requested. */
+function resolveModel(model: string | undefined, upstream: ProxyUpstream): string {
+  if (!upstream.models) {
+    if (!model) throw new ProxyRequestError(400, 'model is required');
+    return model;
+  }
+  if (!model) return upstream.models[0];
+  if (!upstream.models.includes(model)) {
+    throw new ProxyRequestError(403, `Model "${model}" is not allowed`);
+  }
+  return model;
+}
+
+/** Caps the requested token limit; requests without a limit get the cap. */
+function resolveMaxTokens(requested: unknown, cap: number | undefined): number | undefined {
+  if (requested !== undefined && (typeof requested !== 'number' || !Number.isInteger(requested) || requested <= 0)) {
+    throw new ProxyRequestError(400, 'maxTokens must be a positive integer');
+  }
+  if (cap === undefined) return requested;
+  return Math.min(requested ?? cap, cap);
+}
+
+/**
+ * Sends a request to the upstream API with the API key. The request is aborted when the
+ * client disconnects, or when the timeout expires before the response headers arrive, so
+ * long streamed bodies are not cut off.
+ * 
+ * @throws {@link ProxyRequestError} with status 504 on timeout
+ */
+async function fetchUpstream(
+  request: Request,
+  upstream: ProxyUpstream,
+  apiKey: string,
+  path: string,
+  timeout: number = DEFAULT_UPSTREAM_TIMEOUT,
+  init: RequestInit,
+): Promise<Response> {
+  // Combined by hand, since AbortSignal.any is missing before Node 20.3
+  const controller = new AbortController();
+  const abortFromClient = () => controller.abort(request.signal.reason);
+  if (request.signal.aborted) abortFromClient();
+  else request.signal.addEventListener('abort', abortFromClient, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  try {
+    return await fetch(`${upstream.baseUrl!.replace(/\/+$/, '')}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`,
+        ...upstream.headers,
+      },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (timedOut) throw new ProxyRequestError(504, 'Upstream request timed out');
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Passes an upstream error on to the client. Authentication failures become a 502, since
+ * they concern the server's key and not the client; other statuses (e.g. 429 with
+ * Retry-After) are forwarded so the client can back off.
+ */
+async function upstreamErrorResponse(
+  response: Response,
+  context: { provider: string; model?: string; duration?: number },
+  logger: Logger,
+): Promise<Response> {
+  const body = await response.text().catch(() => '');
+  logger.error('Upstream request failed', { ...context, status: response.status, body });
+
+  if (response.status === 401 || response.status === 403) {
+    return errorResponse(new ProxyRequestError(502, 'Upstream authentication failed'));
+  }
+  return new Response(body, { status: response.status, headers: pickHeaders(response.headers) });
+}
+
+/** Copies the headers that are safe to pass on to the client. */
+function pickHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = headers.get(name);
+    if (value !== null) picked[name] = value;
+  }
+  return picked;
+}
+
+/** Builds an OpenAI-style JSON error response. */
+function errorResponse(error: ProxyRequestError): Response {
+  return Response.json({ error: { message: error.message } }, { status: error.status, headers: error.headers });
+}
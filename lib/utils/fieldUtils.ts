@@ -2,15 +2,23 @@
  * Utility functions for working with form fields
  */
 
-import type { FieldInfo } from '../core/types';
-import { affConfig } from '../core/config';
+import type {
+  FieldInfo,
+  FieldOption,
+  FieldSetResult,
+  FieldSnapshot,
+  OptionMatchingOptions,
+  OptionMatchScore,
+  OverwritePolicy,
+} from '../core/types';
+import { matchOption, type OptionMatch } from './optionMatcher';
 
 /**
  * Values that indicate an empty or invalid AI response.
  * If the AI returns one of these, the field should not be filled.
  */
 const EMPTY_VALUE_INDICATORS = [
-  'null', '', 'n/a', 'none', 'no value', 'empty', 'undefined', 'unknown', 'missing'
+  'null', '', 'n/a', 'none', 'no value', 'empty', 'undefined', 'unknown', 'missing', '[]'
 ] as const;
 
 /**
@@ -18,6 +26,17 @@ const EMPTY_VALUE_INDICATORS = [
  */
 const TRUTHY_VALUES = ['true', 'yes', '1', 'checked', 'on'] as const;
 
+/**
+ * Valid values for the `data-aff-overwrite` attribute.
+ */
+const OVERWRITE_POLICIES: readonly OverwritePolicy[] = ['always', 'empty-only', 'ai-filled-only'];
+
+/**
+ * Serialized field state right after the AI last wrote to each element.
+ * Used to detect whether the user has changed the field since.
+ */
+const aiFilledStates = new WeakMap<HTMLElement, string>();
+
 /** Dispatches input and change events to trigger framework reactivity. */
 function dispatchFieldEvents(element: HTMLElement): void {
   element.dispatchEvent(new Event('input', { bubbles: true }));
@@ -25,25 +44,110 @@ function dispatchFieldEvents(element: HTMLElement): void {
 }
 
 /** Returns true if the value indicates an empty/invalid AI response. */
-function isEmptyValue(normalizedValue: string): boolean {
+export function isEmptyValue(value: string): boolean {
+  const normalizedValue = value.trim().toLowerCase();
   return EMPTY_VALUE_INDICATORS.includes(normalizedValue as typeof EMPTY_VALUE_INDICATORS[number]);
 }
 
-/** Gets the label text for a radio button. */
-function getRadioLabel(radio: HTMLInputElement): string {
-  if (radio.id) {
-    const labelElement = document.querySelector(`label[for="${radio.id}"]`);
+/** Returns all radios sharing the element's group, or just the element if it has none. */
+function getRadioGroup(element: HTMLInputElement): HTMLInputElement[] {
+  const form = element.closest('form');
+  if (!form || !element.name) return [element];
+  return Array.from(form.querySelectorAll<HTMLInputElement>(
+    `input[type="radio"][name="${element.name}"]`
+  ));
+}
+
+/** Returns all checkboxes sharing the element's name, or just the element if it has none. */
+function getCheckboxGroup(element: HTMLInputElement): HTMLInputElement[] {
+  const form = element.closest('form');
+  if (!form || !element.name) return [element];
+  return Array.from(form.querySelectorAll<HTMLInputElement>(
+    `input[type="checkbox"][name="${element.name}"]`
+  ));
+}
+
+/** Returns true if the element is one of several checkboxes sharing a name (e.g. `interests[]`). */
+function isCheckboxGroup(element: HTMLElement): element is HTMLInputElement {
+  return element instanceof HTMLInputElement && element.type === 'checkbox' && getCheckboxGroup(element).length > 1;
+}
+
+/** Returns true if the field takes a list of values: a multi-select or a checkbox group. */
+function isMultiValueField(element: HTMLElement): boolean {
+  return (element instanceof HTMLSelectElement && element.multiple) || isCheckboxGroup(element);
+}
+
+/**
+ * Converts a value into a list: arrays are used as is, JSON array strings are parsed,
+ * other strings are split on commas, semicolons and line breaks.
+ */
+function toValueList(value: string | string[]): string[] {
+  const values: unknown[] = Array.isArray(value) ? value : parseJsonArray(value) ?? value.split(/[,;\n]/);
+  return values.map(item => String(item).trim()).filter(item => !isEmptyValue(item));
+}
+
+/** Parses a JSON array string, returning undefined for anything else. */
+function parseJsonArray(value: string): unknown[] | undefined {
+  if (!value.trim().startsWith('[')) return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Reads a valid overwrite policy from the element's `data-aff-overwrite` attribute. */
+function getOverwriteAttribute(element: HTMLElement): OverwritePolicy | undefined {
+  const policy = element.dataset.affOverwrite as OverwritePolicy | undefined;
+  return policy && OVERWRITE_POLICIES.includes(policy) ? policy : undefined;
+}
+
+/** Serializes the current state of a field for comparison. */
+function serializeFieldState(element: HTMLElement): string {
+  return JSON.stringify(
+    captureFieldState(element).map(({ value, checked, selectedOptions }) => [value, checked, selectedOptions])
+  );
+}
+
+/** Gets the label text for a radio button or checkbox. */
+function getOptionLabel(input: HTMLInputElement): string {
+  if (input.id) {
+    const labelElement = document.querySelector(`label[for="${input.id}"]`);
     if (labelElement) {
       return labelElement.textContent?.trim() || '';
     }
   }
-  const parentLabel = radio.closest('label');
+  const parentLabel = input.closest('label');
   if (parentLabel) {
     return parentLabel.textContent?.trim() || '';
   }
   return '';
 }
 
+/**
+ * Builds a single FieldInfo for a group of radios or checkboxes sharing a name.
+ * The first input serves as representative element.
+ */
+function analyzeOptionGroup(group: HTMLInputElement[]): FieldInfo {
+  const fieldInfo = analyzeField(group[0]);
+
+  fieldInfo.options = group.map(input => ({
+    value: input.value,
+    label: getOptionLabel(input) || input.value,
+  }));
+
+  const hints = new Set(group.map(input => input.dataset.affHint).filter(hint => hint));
+  if (hints.size > 0) {
+    fieldInfo.hint = [...hints].join(' ');
+  }
+  for (const input of group) {
+    fieldInfo.overwrite ??= getOverwriteAttribute(input);
+  }
+
+  return fieldInfo;
+}
+
 /**
  * Format a date value for different HTML date/time input types
  * 
@@ -160,6 +264,13 @@ export function analyzeField(element: HTMLElement): FieldInfo {
   } else if (element instanceof HTMLSelectElement) {
     fieldInfo.type = 'select';
     fieldInfo.name = element.name;
+    // Placeholder options with an empty value cannot be chosen
+    fieldInfo.options = Array.from(element.options)
+      .filter(option => option.value !== '')
+      .map(option => ({ value: option.value, label: option.text.trim() || option.value }));
+    if (element.multiple) {
+      fieldInfo.multiple = true;
+    }
   }
 
   // Try to find associated label
@@ -182,22 +293,38 @@ export function analyzeField(element: HTMLElement): FieldInfo {
     fieldInfo.hint = hint;
   }
 
+  const overwrite = getOverwriteAttribute(element);
+  if (overwrite) {
+    fieldInfo.overwrite = overwrite;
+  }
+
   return fieldInfo;
 }
 
 /**
  * Returns all fillable fields from a form (inputs, textareas, selects).
- * Radio buttons are grouped by name into a single FieldInfo with options.
+ * Radio buttons are grouped by name into a single FieldInfo with options, as are
+ * checkboxes sharing a name (e.g. `interests[]`), which are marked as `multiple`.
  */
 export function getFillTargets(formElement: HTMLFormElement): FieldInfo[] {
   const fields: FieldInfo[] = [];
   const radioGroups: Map<string, HTMLInputElement[]> = new Map();
+  const checkboxGroups: Map<string, HTMLInputElement[]> = new Map();
   
   // https://www.w3schools.com/html/html_form_input_types.asp
   const elements = formElement.querySelectorAll(
     'input:not([type="submit"]):not([type="reset"]):not([type="button"]):not([type="hidden"]):not([type="image"]):not([type="file"]), textarea, select'
   );
 
+  elements.forEach((element) => {
+    if (element instanceof HTMLInputElement && element.type === 'checkbox' && element.name) {
+      if (!checkboxGroups.has(element.name)) {
+        checkboxGroups.set(element.name, []);
+      }
+      checkboxGroups.get(element.name)!.push(element);
+    }
+  });
+
   elements.forEach((element) => {
     if (element instanceof HTMLInputElement && element.type === 'radio') {
       // Group radio buttons by name
@@ -208,153 +335,323 @@ export function getFillTargets(formElement: HTMLFormElement): FieldInfo[] {
         }
         radioGroups.get(name)!.push(element);
       }
+    } else if (element instanceof HTMLInputElement && (checkboxGroups.get(element.name)?.length ?? 0) > 1) {
+      // Checkbox groups take the position of their first checkbox
+      const checkboxGroup = checkboxGroups.get(element.name)!;
+      if (checkboxGroup[0] === element) {
+        const fieldInfo = analyzeOptionGroup(checkboxGroup);
+        fieldInfo.multiple = true;
+        fields.push(fieldInfo);
+      }
     } else if (element instanceof HTMLElement) {
       fields.push(analyzeField(element));
     }
   });
 
   // Process radio button groups
-  for (const [_name, radioGroup] of radioGroups.entries()) {
+  for (const radioGroup of radioGroups.values()) {
     if (radioGroup.length === 0) continue;
-    
-    // first radio serves as representative element
-    const firstRadio = radioGroup[0];
-    const fieldInfo = analyzeField(firstRadio);
-    
-    fieldInfo.options = radioGroup.map(radio => {
-      let label = '';
-      if (radio.id) {
-        const labelElement = document.querySelector(`label[for="${radio.id}"]`);
-        if (labelElement) {
-          label = labelElement.textContent?.trim() || '';
-        }
-      }
-      if (!label) {
-        const parentLabel = radio.closest('label');
-        if (parentLabel) {
-          label = parentLabel.textContent?.trim() || '';
-        }
-      }
-      return {
-        value: radio.value,
-        label: label || radio.value
-      };
-    });
-    
-    for (const radio of radioGroup) {
-      const hint = radio.dataset.affHint;
-      if (hint) {
-        fieldInfo.hint += ' ' + hint ;
-      }
-    }
-    
-    fields.push(fieldInfo);
-  };
+    fields.push(analyzeOptionGroup(radioGroup));
+  }
 
   return fields;
 }
 
 /** Sets a checkbox value based on the AI response. */
-function setCheckboxValue(element: HTMLInputElement, normalizedValue: string): void {
+function setCheckboxValue(element: HTMLInputElement, normalizedValue: string): FieldSetResult {
   const shouldCheck = TRUTHY_VALUES.includes(normalizedValue as typeof TRUTHY_VALUES[number]);
   element.checked = shouldCheck;
   dispatchFieldEvents(element);
+  return { applied: true, value: String(shouldCheck) };
 }
 
 /** Finds and checks the matching radio button in a group. */
-function setRadioValue(element: HTMLInputElement, normalizedValue: string): void {
-  const form = element.closest('form');
-  if (!form || !element.name) return;
+function setRadioValue(element: HTMLInputElement, value: string, matching: OptionMatchingOptions): FieldSetResult {
+  if (!element.closest('form') || !element.name) {
+    return { applied: false, reason: 'Radio button is not part of a named group inside a form' };
+  }
   
-  const radios = form.querySelectorAll<HTMLInputElement>(
-    `input[type="radio"][name="${element.name}"]`
+  const radios = getRadioGroup(element).map(radio => ({ radio, value: radio.value, label: getOptionLabel(radio) }));
+  const match = matchOption(radios, value, matching);
+  if (match.option) {
+    match.option.radio.checked = true;
+    dispatchFieldEvents(match.option.radio);
+    return { applied: true, value: match.option.radio.value, match: describeOptionMatch(match) };
+  }
+
+  return { applied: false, reason: explainOptionMismatch('radio option', value, match), match: describeOptionMatch(match) };
+}
+
+/**
+ * Checks every checkbox of a group that matches one of the values and unchecks the others.
+ * Values without a matching checkbox are ignored; the field fails if none matches.
+ */
+function setCheckboxGroupValue(element: HTMLInputElement, values: string[], matching: OptionMatchingOptions): FieldSetResult {
+  const checkboxes = getCheckboxGroup(element).map(checkbox => ({
+    checkbox,
+    value: checkbox.value,
+    label: getOptionLabel(checkbox),
+  }));
+  const matches = new Set(
+    values.map(value => matchOption(checkboxes, value, matching).option?.checkbox).filter(checkbox => checkbox)
   );
-  
-  for (const radio of radios) {
-    const radioLabel = getRadioLabel(radio).toLowerCase();
-    const radioValue = radio.value.toLowerCase();
-    
-    if (radioValue === normalizedValue ||
-        radioLabel === normalizedValue ||
-        radioValue.includes(normalizedValue) ||
-        radioLabel.includes(normalizedValue) ||
-        normalizedValue.includes(radioValue) ||
-        normalizedValue.includes(radioLabel)) {
-      radio.checked = true;
-      dispatchFieldEvents(radio);
-      break;
-    }
+  if (matches.size === 0) {
+    return { applied: false, reason: `No matching checkbox for ${JSON.stringify(values)}` };
   }
+
+  for (const { checkbox } of checkboxes) {
+    const shouldCheck = matches.has(checkbox);
+    if (checkbox.checked === shouldCheck) continue;
+    checkbox.checked = shouldCheck;
+    dispatchFieldEvents(checkbox);
+  }
+  return { applied: true, value: JSON.stringify(checkboxes.filter(({ checkbox }) => matches.has(checkbox)).map(({ value }) => value)) };
 }
 
 /** Sets a date/time input value, parsing various formats. */
-function setDateValue(element: HTMLInputElement, value: string): void {
+function setDateValue(element: HTMLInputElement, value: string): FieldSetResult {
   const formattedValue = formatDateValue(value, element.type);
   if (formattedValue) {
     element.value = formattedValue;
     dispatchFieldEvents(element);
-  } else if (affConfig.formFillDebug) {
-    console.warn(`Could not parse date value "${value}" for ${element.type} input`);
+    return { applied: true, value: formattedValue };
   }
+
+  return { applied: false, reason: `Could not parse "${value}" as ${element.type}` };
 }
 
 /** Sets a select element value, matching by value or display text. */
-function setSelectValue(element: HTMLSelectElement, normalizedValue: string, originalValue: string): void {
-  let option = Array.from(element.options).find(
-    (opt) => opt.value.toLowerCase() === normalizedValue || 
-             opt.text.toLowerCase() === normalizedValue
-  );
-  
-  if (!option) {
-    option = Array.from(element.options).find(
-      (opt) => opt.value.toLowerCase().includes(normalizedValue) || 
-               opt.text.toLowerCase().includes(normalizedValue) ||
-               normalizedValue.includes(opt.value.toLowerCase()) ||
-               normalizedValue.includes(opt.text.toLowerCase())
-    );
-  }
+function setSelectValue(element: HTMLSelectElement, value: string, matching: OptionMatchingOptions): FieldSetResult {
+  const match = matchOption(getSelectOptions(element), value, matching);
   
-  if (option) {
-    element.value = option.value;
+  if (match.option) {
+    element.value = match.option.value;
     dispatchFieldEvents(element);
-  } else if (affConfig.formFillDebug) {
-    console.warn(
-      `No matching option for select. Value: "${originalValue}", Options:`,
-      Array.from(element.options).map(opt => `${opt.value} (${opt.text})`)
-    );
+    return { applied: true, value: match.option.value, match: describeOptionMatch(match) };
   }
+
+  return { applied: false, reason: explainOptionMismatch('option', value, match), match: describeOptionMatch(match) };
+}
+
+/**
+ * Selects every option of a multi-select that matches one of the values and deselects the others.
+ * Values without a matching option are ignored; the field fails if none matches.
+ */
+function setMultiSelectValue(element: HTMLSelectElement, values: string[], matching: OptionMatchingOptions): FieldSetResult {
+  const options = getSelectOptions(element);
+  const matches = new Set(
+    values.map(value => matchOption(options, value, matching).option?.option).filter(option => option)
+  );
+  if (matches.size === 0) {
+    return { applied: false, reason: `No matching options for ${JSON.stringify(values)}` };
+  }
+
+  for (const { option } of options) {
+    option.selected = matches.has(option);
+  }
+  dispatchFieldEvents(element);
+  return { applied: true, value: JSON.stringify(Array.from(element.selectedOptions).map(option => option.value)) };
+}
+
+/** Returns the options of a select with their value and display text for matching, without placeholders. */
+function getSelectOptions(element: HTMLSelectElement): Array<{ option: HTMLOptionElement; value: string; label: string }> {
+  return Array.from(element.options)
+    .filter(option => option.value !== '')
+    .map(option => ({ option, value: option.value, label: option.text.trim() }));
+}
+
+/** Reduces an option match to the score and runner-up reported in the FieldSetResult. */
+function describeOptionMatch(match: OptionMatch<FieldOption>): OptionMatchScore {
+  if (!match.runnerUp) return { score: match.score };
+  const { option, score } = match.runnerUp;
+  return { score: match.score, runnerUp: { value: option.value, label: option.label, score } };
+}
+
+/** Explains why no option was chosen, naming the closest candidates. */
+function explainOptionMismatch(kind: string, value: string, match: OptionMatch<FieldOption>): string {
+  const reason = `No matching ${kind} for "${value}"`;
+  const { candidate, runnerUp } = match;
+  if (!candidate) return reason;
+
+  const candidateLabel = candidate.option.label || candidate.option.value;
+  if (runnerUp && runnerUp.score === candidate.score) {
+    const runnerUpLabel = runnerUp.option.label || runnerUp.option.value;
+    return `${reason}: "${candidateLabel}" and "${runnerUpLabel}" both score ${candidate.score}`;
+  }
+  return `${reason}: closest is "${candidateLabel}" with score ${candidate.score}`;
 }
 
 /**
  * Sets the value of a form field and triggers change events for framework reactivity.
+ * 
+ * Multi-selects and checkbox groups take a list of values, either as an array or as a
+ * JSON array or comma-separated string, and select or check every match. Their
+ * {@link FieldSetResult.value} is the JSON array of the selected values.
+ * 
+ * Options of selects, radio groups and checkbox groups are matched by value or label,
+ * see {@link matchOption}. For selects and radio groups, {@link FieldSetResult.match}
+ * reports the match score and the runner-up.
+ * 
+ * @param optionMatching - How values are matched to options (default: exact matching)
+ * @returns A {@link FieldSetResult} describing whether and what was written
  */
-export function setFieldValue(element: HTMLElement, value: string): void {
+export function setFieldValue(
+  element: HTMLElement,
+  value: string | string[],
+  optionMatching: OptionMatchingOptions = {},
+): FieldSetResult {
+  if (isMultiValueField(element)) {
+    const values = toValueList(value);
+    if (values.length === 0) {
+      return { applied: false, reason: 'Value is empty' };
+    }
+    return element instanceof HTMLSelectElement
+      ? setMultiSelectValue(element, values, optionMatching)
+      : setCheckboxGroupValue(element as HTMLInputElement, values, optionMatching);
+  }
+
+  if (Array.isArray(value)) {
+    value = value.join(', ');
+  }
   const normalizedValue = value.trim().toLowerCase();
   
-  if (isEmptyValue(normalizedValue)) return;
+  if (isEmptyValue(normalizedValue)) {
+    return { applied: false, reason: 'Value is empty' };
+  }
   
   if (element instanceof HTMLInputElement) {
     switch (element.type) {
       case 'checkbox':
-        setCheckboxValue(element, normalizedValue);
-        break;
+        return setCheckboxValue(element, normalizedValue);
       case 'radio':
-        setRadioValue(element, normalizedValue);
-        break;
+        return setRadioValue(element, value, optionMatching);
       case 'date':
       case 'datetime-local':
       case 'time':
-        setDateValue(element, value);
-        break;
+        return setDateValue(element, value);
       default:
         element.value = value;
         dispatchFieldEvents(element);
+        return { applied: true, value };
     }
   } else if (element instanceof HTMLTextAreaElement) {
     element.value = value;
     dispatchFieldEvents(element);
+    return { applied: true, value };
   } else if (element instanceof HTMLSelectElement) {
-    setSelectValue(element, normalizedValue, value);
+    return setSelectValue(element, value, optionMatching);
+  }
+
+  return { applied: false, reason: 'Unsupported element type' };
+}
+
+/**
+ * Captures the current state of a form field so it can be restored later.
+ * Radio buttons and checkboxes sharing a name capture their whole group.
+ */
+export function captureFieldState(element: HTMLElement): FieldSnapshot[] {
+  if (element instanceof HTMLInputElement && element.type === 'radio') {
+    return getRadioGroup(element).map(radio => ({ element: radio, checked: radio.checked }));
+  }
+  if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+    return getCheckboxGroup(element).map(checkbox => ({ element: checkbox, checked: checkbox.checked }));
+  }
+  if (element instanceof HTMLSelectElement) {
+    return [{
+      element,
+      value: element.value,
+      selectedOptions: Array.from(element.options).map(opt => opt.selected),
+    }];
+  }
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    return [{ element, value: element.value }];
+  }
+  return [];
+}
+
+/**
+ * Restores previously captured field states and triggers change events
+ * for every element whose state actually changed.
+ */
+export function restoreFieldState(snapshots: FieldSnapshot[]): void {
+  for (const snapshot of snapshots) {
+    const { element } = snapshot;
+    let changed = false;
+
+    if (element instanceof HTMLSelectElement && snapshot.selectedOptions) {
+      Array.from(element.options).forEach((opt, index) => {
+        const selected = snapshot.selectedOptions![index] ?? false;
+        if (opt.selected !== selected) {
+          opt.selected = selected;
+          changed = true;
+        }
+      });
+    } else if (element instanceof HTMLInputElement && snapshot.checked !== undefined) {
+      changed = element.checked !== snapshot.checked;
+      element.checked = snapshot.checked;
+    } else if ((element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)
+      && snapshot.value !== undefined) {
+      changed = element.value !== snapshot.value;
+      element.value = snapshot.value;
+    }
+
+    if (changed) dispatchFieldEvents(element);
+  }
+}
+
+/**
+ * Returns true if the field holds no value.
+ * 
+ * - Checkboxes: unchecked; checkbox groups: no checkbox in the group is checked
+ * - Radios: no option in the group is checked
+ * - Selects: no option selected, or the selected option has an empty value (placeholder)
+ * - Text-like inputs and textareas: blank value
+ */
+export function isFieldEmpty(element: HTMLElement): boolean {
+  if (element instanceof HTMLInputElement && element.type === 'checkbox') {
+    return !getCheckboxGroup(element).some(checkbox => checkbox.checked);
+  }
+  if (element instanceof HTMLInputElement && element.type === 'radio') {
+    return !getRadioGroup(element).some(radio => radio.checked);
+  }
+  if (element instanceof HTMLSelectElement) {
+    const selected = Array.from(element.selectedOptions);
+    return selected.length === 0 || selected.every(opt => opt.value === '');
+  }
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    return element.value.trim() === '';
+  }
+  return true;
+}
+
+/**
+ * Records the field's current state as written by the AI.
+ */
+export function markFieldAsAIFilled(element: HTMLElement): void {
+  aiFilledStates.set(element, serializeFieldState(element));
+}
+
+/**
+ * Returns true if the AI filled this field and it has not been changed since.
+ */
+export function isFieldAIFilled(element: HTMLElement): boolean {
+  const aiState = aiFilledStates.get(element);
+  return aiState !== undefined && aiState === serializeFieldState(element);
+}
+
+/**
+ * Returns true if the field may be written under the given overwrite policy.
+ * A `data-aff-overwrite` attribute on the field takes precedence over the policy.
+ */
+export function canOverwriteField(field: FieldInfo, policy: OverwritePolicy = 'always'): boolean {
+  const effectivePolicy = field.overwrite ?? policy;
+  switch (effectivePolicy) {
+    case 'empty-only':
+      return isFieldEmpty(field.element);
+    case 'ai-filled-only':
+      return isFieldEmpty(field.element) || isFieldAIFilled(field.element);
+    default:
+      return true;
   }
 }
 
@@ -2,20 +2,39 @@
  * Utility functions for parsing JSON responses from AI providers
  */
 
+import { JsonParseError, SchemaMismatchError, type ProviderErrorContext } from '../core/errors';
+import { silentLogger, type Logger } from './logger';
+import { isEmptyValue } from './fieldUtils';
+
+/**
+ * Options for parseJsonResponse
+ * 
+ * @param strict - Throw {@link JsonParseError} / {@link SchemaMismatchError} instead of returning an empty object
+ * @param schema - JSON schema (see generateFormSchema) the response is validated against in strict mode
+ * @param errorContext - Provider, model and endpoint attached to thrown errors
+ * @param logger - Receives parse failures outside of strict mode (default: silent)
+ */
+export type ParseJsonOptions = {
+  strict?: boolean;
+  schema?: Record<string, any>;
+  errorContext?: ProviderErrorContext;
+  logger?: Logger;
+}
+
 /**
  * Parses JSON from AI responses, handling markdown code blocks and formatting issues.
- * Returns empty object if parsing fails.
+ * Returns empty object if parsing fails, unless `options.strict` is set.
+ * 
+ * Values are converted to strings; arrays (multi-selects, checkbox groups) become JSON array strings.
  */
-export function parseJsonResponse(aiResponse: string): Record<string, string> {
+export function parseJsonResponse(aiResponse: string, options: ParseJsonOptions = {}): Record<string, string> {
+  if (options.strict) {
+    return parseJsonResponseStrict(aiResponse, options);
+  }
+
   try {
-    // Clean up the response
-    let cleanedResponse = aiResponse.trim();
-    
-    // Remove markdown code blocks
-    cleanedResponse = cleanedResponse
-      .replace(/```json\n?/g, '')
-      .replace(/```\n?/g, '')
-      .trim();
+    // Clean up the response and remove markdown code blocks
+    const cleanedResponse = cleanResponse(aiResponse);
     
     // Parse JSON
     const responseAsJson: JSON = JSON.parse(cleanedResponse);
@@ -23,17 +42,120 @@ export function parseJsonResponse(aiResponse: string): Record<string, string> {
     // Convert all values to strings
     const result: Record<string, string> = {};
     for (const [fieldName, fieldValue] of Object.entries(responseAsJson)) {
-      result[fieldName] = String(fieldValue);
+      result[fieldName] = stringifyValue(fieldValue);
     }
     
     return result;
   } catch (error) {
-    console.error('Failed to parse JSON response:', error);
-    console.error('Response was:', aiResponse);
+    (options.logger ?? silentLogger).error('Failed to parse JSON response', {
+      provider: options.errorContext?.provider,
+      model: options.errorContext?.model,
+      error,
+      response: aiResponse,
+    });
     return {};
   }
 }
 
+/** Removes surrounding whitespace and markdown code fences. */
+function cleanResponse(aiResponse: string): string {
+  return aiResponse
+    .trim()
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+}
+
+/** Parses the response and throws typed errors instead of returning an empty object. */
+function parseJsonResponseStrict(aiResponse: string, options: ParseJsonOptions): Record<string, string> {
+  const { values, mismatches } = parseFormResponse(aiResponse, options);
+  if (Object.keys(mismatches).length > 0) {
+    throw new SchemaMismatchError(aiResponse, Object.values(mismatches), options.errorContext);
+  }
+  return values;
+}
+
+/**
+ * Values of a form response, with the fields whose value does not match the schema
+ * 
+ * @param values - Every value of the response, converted to strings
+ * @param mismatches - Description of the mismatch, by field name
+ */
+export type FormResponse = {
+  values: Record<string, string>;
+  mismatches: Record<string, string>;
+}
+
+/**
+ * Parses a form response like strict {@link parseJsonResponse}, but reports values that
+ * do not match `options.schema` per field instead of rejecting the whole response.
+ * 
+ * @throws {@link JsonParseError} if the response is not valid JSON
+ * @throws {@link SchemaMismatchError} if the response is not a JSON object
+ */
+export function parseFormResponse(aiResponse: string, options: ParseJsonOptions = {}): FormResponse {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleanResponse(aiResponse));
+  } catch (error) {
+    throw new JsonParseError(aiResponse, { ...options.errorContext, cause: error });
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new SchemaMismatchError(aiResponse, ['expected a JSON object'], options.errorContext);
+  }
+
+  const values: Record<string, string> = {};
+  for (const [fieldName, fieldValue] of Object.entries(parsed)) {
+    values[fieldName] = stringifyValue(fieldValue);
+  }
+  const mismatches = options.schema ? findSchemaMismatches(parsed as Record<string, unknown>, options.schema) : {};
+  return { values, mismatches };
+}
+
+/** Converts a response value to the string passed to the field; arrays keep their items as JSON. */
+function stringifyValue(value: unknown): string {
+  return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Compares the top-level values of a response with the property types of a form schema.
+ * Every value the field writers accept passes: any scalar for booleans (checkboxes treat
+ * "yes", "on" etc. as checked) and empty indicators such as "unknown" for numbers.
+ * 
+ * @returns Description of each mismatch, by key
+ */
+function findSchemaMismatches(data: Record<string, unknown>, schema: Record<string, any>): Record<string, string> {
+  const mismatches: Record<string, string> = {};
+  const properties: Record<string, any> = schema.properties ?? {};
+
+  for (const [key, value] of Object.entries(data)) {
+    const expectedType = properties[key]?.type;
+    if (!expectedType || value === null) continue;
+
+    const isScalar = ['string', 'number', 'boolean'].includes(typeof value);
+    switch (expectedType) {
+      case 'number':
+        if (!isScalar || (isNaN(Number(value)) && !isEmptyValue(String(value)))) {
+          mismatches[key] = `"${key}" should be a number`;
+        }
+        break;
+      case 'boolean':
+        if (!isScalar) mismatches[key] = `"${key}" should be a boolean`;
+        break;
+      case 'string':
+        if (!isScalar) mismatches[key] = `"${key}" should be a string`;
+        break;
+      case 'array':
+        // A single value or comma-separated string is accepted for fields that take a list
+        if (!Array.isArray(value) && !isScalar) mismatches[key] = `"${key}" should be an array`;
+        break;
+    }
+  }
+
+  return mismatches;
+}
+
 /**
  * Returns true if the string is valid JSON.
  */
@@ -45,3 +167,129 @@ export function isValidJson(str: string): boolean {
     return false;
   }
 }
+
+/**
+ * Parses a JSON object as it streams in and emits every top-level key as soon as its value is complete.
+ * Text before the first `{` (e.g. a markdown code fence) is ignored. Values are converted to strings
+ * like in {@link parseJsonResponse}, and checked against the schema like in {@link parseFormResponse}.
+ * 
+ * @example
+ * ```typescript
+ * const parser = new IncrementalJsonParser();
+ * parser.push('{"firstName": "Jo');   // []
+ * parser.push('hn", "age": 4');       // [['firstName', 'John']]
+ * parser.push('2}');                  // [['age', '42']]
+ * ```
+ */
+export class IncrementalJsonParser {
+  private buffer = '';
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false;
+  private done = false;
+  private memberStart = 0;
+  private result: Record<string, string> = {};
+  private mismatches: Record<string, string> = {};
+  private readonly schema?: Record<string, any>;
+
+  /**
+   * @param schema - Optional JSON schema the completed values are checked against
+   */
+  constructor(schema?: Record<string, any>) {
+    this.schema = schema;
+  }
+
+  /**
+   * Feeds the next chunk of the response
+   * 
+   * @returns The key/value pairs completed by this chunk
+   */
+  push(chunk: string): Array<[string, string]> {
+    const completed: Array<[string, string]> = [];
+
+    for (const char of chunk) {
+      if (this.done) break;
+
+      if (!this.started) {
+        if (char !== '{') continue;
+        this.started = true;
+      }
+
+      this.buffer += char;
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === '\\') this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          break;
+        case '{':
+        case '[':
+          this.depth++;
+          if (this.depth === 1) this.memberStart = this.buffer.length;
+          break;
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth === 0) {
+            this.completeMember(this.buffer.length - 1, completed);
+            this.done = true;
+          }
+          break;
+        case ',':
+          if (this.depth === 1) {
+            this.completeMember(this.buffer.length - 1, completed);
+            this.memberStart = this.buffer.length;
+          }
+          break;
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Returns all key/value pairs parsed so far
+   */
+  getResult(): Record<string, string> {
+    return { ...this.result };
+  }
+
+  /**
+   * Returns the values completed so far that do not match the schema, by key
+   */
+  getMismatches(): Record<string, string> {
+    return { ...this.mismatches };
+  }
+
+  /**
+   * Returns true once the closing brace of the top-level object was seen
+   */
+  isComplete(): boolean {
+    return this.done;
+  }
+
+  /** Parses the `"key": value` member ending at `end` and records it. */
+  private completeMember(end: number, completed: Array<[string, string]>): void {
+    const member = this.buffer.slice(this.memberStart, end).trim();
+    if (!member) return;
+
+    try {
+      const parsed = JSON.parse(`{${member}}`) as Record<string, unknown>;
+      if (this.schema) Object.assign(this.mismatches, findSchemaMismatches(parsed, this.schema));
+      for (const [fieldName, fieldValue] of Object.entries(parsed)) {
+        const value = stringifyValue(fieldValue);
+        this.result[fieldName] = value;
+        completed.push([fieldName, value]);
+      }
+    } catch {
+      // Malformed member; the full response is validated once the stream ends
+    }
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Logging interface and adapters
+ *
+ * All diagnostics of the library go through a {@link Logger}, which can be set per
+ * `AIFormFill` or provider instance, or globally with `affConfig.logger`.
+ */
+
+/**
+ * Severity of a log message, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured data attached to a log message
+ *
+ * @param provider - Name of the provider involved
+ * @param model - Model the request was sent to
+ * @param field - Identifier of the form field involved
+ * @param duration - Duration of the operation in ms
+ * @param error - The error that caused the message
+ */
+export type LogContext = {
+  provider?: string;
+  model?: string;
+  field?: string;
+  duration?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Receives the library's diagnostics
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * A log message as passed to {@link createCallbackLogger} handlers
+ */
+export type LogEntry = {
+  level: LogLevel;
+  message: string;
+  context: LogContext;
+  /** Time of the message in ms since the epoch */
+  timestamp: number;
+}
+
+/** Numeric order of the log levels, used to filter messages below the minimum level */
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Logger that discards every message. Used when debugging is off and no logger is set.
+ */
+export const silentLogger: Logger = Object.freeze({
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+});
+
+/**
+ * Creates a logger that forwards every message at or above `level` to a callback,
+ * e.g. to send diagnostics to a telemetry service
+ *
+ * @example
+ * ```typescript
+ * const logger = createCallbackLogger((entry) => telemetry.track('aff-log', entry), { level: 'warn' });
+ * const aiForm = new AIFormFill('openai', { logger });
+ * ```
+ */
+export function createCallbackLogger(
+  handler: (entry: LogEntry) => void,
+  options?: { level?: LogLevel },
+): Logger {
+  const minimumLevel = LOG_LEVEL_ORDER[options?.level ?? 'debug'];
+  const log = (level: LogLevel) => (message: string, context?: LogContext) => {
+    if (LOG_LEVEL_ORDER[level] < minimumLevel) return;
+    handler({ level, message, context: context ?? {}, timestamp: Date.now() });
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+  };
+}
+
+/**
+ * Creates a logger that writes to the console (or any object with the console's level methods)
+ *
+ * @param options.level - Minimum level that is written (default: 'debug')
+ * @param options.prefix - Prepended to every message (default: '[ai-form-fill]')
+ * @param options.target - Where messages are written (default: `console`)
+ */
+export function createConsoleLogger(options?: {
+  level?: LogLevel;
+  prefix?: string;
+  target?: Pick<Console, LogLevel>;
+}): Logger {
+  const prefix = options?.prefix ?? '[ai-form-fill]';
+  const target = options?.target ?? console;
+
+  return createCallbackLogger(({ level, message, context }) => {
+    const text = prefix ? `${prefix} ${message}` : message;
+    if (Object.keys(context).length > 0) target[level](text, context);
+    else target[level](text);
+  }, { level: options?.level });
+}
@@ -0,0 +1,259 @@
+/**
+ * Matching of extracted values to the options of selects, radio groups and checkbox groups
+ */
+
+import type { FieldOption, OptionMatchingOptions } from '../core/types';
+
+/**
+ * Minimum score an option needs in `fuzzy` mode unless configured otherwise
+ */
+export const DEFAULT_MIN_OPTION_SCORE = 0.8;
+
+/**
+ * Built-in synonyms, extended by {@link OptionMatchingOptions.synonyms}.
+ * Each key and its alternatives are treated as equivalent.
+ */
+export const DEFAULT_OPTION_SYNONYMS: Record<string, string[]> = {
+  'united states': ['usa', 'us', 'america'],
+  'united kingdom': ['uk', 'great britain', 'britain'],
+  yes: ['y', 'true'],
+  no: ['n', 'false'],
+  female: ['f', 'woman'],
+  male: ['m', 'man'],
+};
+
+/** Words left out when forming acronyms, e.g. "United States of America" → "usa". */
+const ACRONYM_STOPWORDS = ['of', 'the', 'and', 'for'];
+
+/** Score for an option reached through a synonym, relative to matching the synonym directly. */
+const SYNONYM_WEIGHT = 0.95;
+
+/** Score for a value that is the acronym of an option, e.g. "us" for "United States". */
+const ACRONYM_SCORE = 0.9;
+
+/** Score for a word abbreviating another, e.g. "dept" for "department". */
+const ABBREVIATION_SCORE = 0.9;
+
+/** Edit-distance similarities below this count as unrelated text. */
+const MIN_SIMILARITY = 0.75;
+
+/**
+ * An option with its score for a value, between 0 (unrelated) and 1 (equal)
+ */
+export type ScoredOption<T extends FieldOption> = {
+  option: T;
+  score: number;
+}
+
+/**
+ * Outcome of matching a value to a list of options
+ *
+ * @param option - The matched option; undefined if no option scored high enough or the best two tied
+ * @param score - Score of the matched option, or of the best candidate if none matched
+ * @param candidate - The best-scoring option, whether or not it was accepted
+ * @param runnerUp - The second-best option, if any scored above 0
+ */
+export type OptionMatch<T extends FieldOption> = {
+  option?: T;
+  score: number;
+  candidate?: ScoredOption<T>;
+  runnerUp?: ScoredOption<T>;
+}
+
+/**
+ * Normalizes option text for matching: lowercase, without accents, with collapsed whitespace.
+ */
+export function normalizeOptionText(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Finds the option for a value.
+ *
+ * The option with exactly this value wins, otherwise the option whose value or label equals
+ * the value after normalization; both score 1. Option values take precedence over labels.
+ * In `fuzzy` mode, all options are otherwise ranked by {@link scoreOption}, and the best one
+ * is used if it reaches the minimum score and is not tied with the runner-up.
+ *
+ * @example
+ * ```typescript
+ * const options = [{ value: 'de', label: 'Germany' }, { value: 'us', label: 'United States' }];
+ * matchOption(options, 'germany').option;                     // { value: 'de', ... }
+ * matchOption(options, 'USA', { mode: 'fuzzy' }).option;      // { value: 'us', ... }
+ * ```
+ */
+export function matchOption<T extends FieldOption>(
+  options: T[],
+  value: string,
+  matching: OptionMatchingOptions = {},
+): OptionMatch<T> {
+  const trimmedValue = value.trim();
+  const lookupMatch = options.find(option => option.value === trimmedValue) ??
+    createOptionLookup(options).get(normalizeOptionText(trimmedValue));
+
+  if (matching.mode !== 'fuzzy') {
+    return lookupMatch
+      ? { option: lookupMatch, score: 1, candidate: { option: lookupMatch, score: 1 } }
+      : { score: 0 };
+  }
+
+  const ranked = rankOptions(options, trimmedValue, matching.synonyms);
+  if (lookupMatch) {
+    const candidate = { option: lookupMatch, score: 1 };
+    return { option: lookupMatch, score: 1, candidate, runnerUp: ranked.find(scored => scored.option !== lookupMatch) };
+  }
+
+  const [candidate, runnerUp] = ranked;
+  if (!candidate) return { score: 0 };
+
+  const minScore = matching.minScore ?? DEFAULT_MIN_OPTION_SCORE;
+  const tied = runnerUp !== undefined && runnerUp.score === candidate.score;
+  return {
+    option: candidate.score >= minScore && !tied ? candidate.option : undefined,
+    score: candidate.score,
+    candidate,
+    runnerUp,
+  };
+}
+
+/**
+ * Ranks options by their score for a value, best first; options scoring 0 are left out.
+ * Options with equal scores keep their order.
+ */
+export function rankOptions<T extends FieldOption>(
+  options: T[],
+  value: string,
+  synonyms?: Record<string, string[]>,
+): ScoredOption<T>[] {
+  return options
+    .map(option => ({ option, score: scoreOption(option, value, synonyms) }))
+    .filter(scored => scored.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Scores how well a value matches an option's value or label, between 0 and 1.
+ *
+ * Compares normalized text by edit distance, word by word (so "Germany" scores low against
+ * "East Germany"), as acronym ("US" for "United States") and through synonyms. Options with
+ * an empty value and label never match.
+ */
+export function scoreOption(option: FieldOption, value: string, synonyms?: Record<string, string[]>): number {
+  const normalizedValue = normalizeOptionText(value);
+  const texts = [option.value, option.label].map(normalizeOptionText).filter(text => text);
+  if (!normalizedValue || texts.length === 0) return 0;
+
+  let best = Math.max(...texts.map(text => scoreText(normalizedValue, text)));
+  for (const synonym of findSynonyms(normalizedValue, synonyms)) {
+    if (best === 1) break;
+    best = Math.max(best, ...texts.map(text => SYNONYM_WEIGHT * scoreText(synonym, text)));
+  }
+  return Math.round(best * 100) / 100;
+}
+
+/**
+ * Maps the normalized value and label of every option to the option.
+ * Values take precedence over labels, earlier options over later ones.
+ */
+function createOptionLookup<T extends FieldOption>(options: T[]): Map<string, T> {
+  const lookup = new Map<string, T>();
+  for (const key of ['value', 'label'] as const) {
+    for (const option of options) {
+      const text = normalizeOptionText(option[key]);
+      if (text && !lookup.has(text)) lookup.set(text, option);
+    }
+  }
+  return lookup;
+}
+
+/** Scores two normalized, non-empty texts. */
+function scoreText(value: string, text: string): number {
+  if (value === text) return 1;
+
+  const valueTokens = tokenize(value);
+  const textTokens = tokenize(text);
+  const acronymScore = valueTokens.length === 1 && value.length >= 2 && getAcronym(textTokens) === value
+    ? ACRONYM_SCORE
+    : 0;
+
+  const textSimilarity = similarity(value, text);
+  return Math.max(textSimilarity >= MIN_SIMILARITY ? textSimilarity : 0, scoreTokens(valueTokens, textTokens), acronymScore);
+}
+
+/**
+ * Scores two token lists by pairing every token with its most similar counterpart.
+ * Unpaired tokens on either side lower the score.
+ */
+function scoreTokens(valueTokens: string[], textTokens: string[]): number {
+  if (valueTokens.length === 0 || textTokens.length === 0) return 0;
+
+  const bestPairing = (tokens: string[], others: string[]) =>
+    tokens.reduce((sum, token) => sum + Math.max(...others.map(other => scoreToken(token, other))), 0);
+
+  return (bestPairing(valueTokens, textTokens) + bestPairing(textTokens, valueTokens)) /
+    (valueTokens.length + textTokens.length);
+}
+
+/** Scores two single words; abbreviations count as near matches. */
+function scoreToken(a: string, b: string): number {
+  if (a === b) return 1;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (isAbbreviation(shorter, longer)) return ABBREVIATION_SCORE;
+  const tokenSimilarity = similarity(a, b);
+  return tokenSimilarity >= MIN_SIMILARITY ? tokenSimilarity : 0;
+}
+
+/** True if a word of at least 3 letters starts like the other and keeps its letters in order ("dept", "depart"). */
+function isAbbreviation(short: string, word: string): boolean {
+  if (short.length < 3 || short.length >= word.length || short[0] !== word[0]) return false;
+  let position = 0;
+  for (const char of short) {
+    position = word.indexOf(char, position) + 1;
+    if (position === 0) return false;
+  }
+  return true;
+}
+
+/** Splits normalized text into words, ignoring punctuation. */
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(token => token);
+}
+
+/** Builds the acronym of a multi-word text, or an empty string for single words. */
+function getAcronym(tokens: string[]): string {
+  const words = tokens.filter(token => !ACRONYM_STOPWORDS.includes(token));
+  return words.length >= 2 ? words.map(word => word[0]).join('') : '';
+}
+
+/** Returns the normalized terms equivalent to a value, from the built-in and the given synonyms. */
+function findSynonyms(value: string, synonyms: Record<string, string[]> = {}): string[] {
+  const equivalents = new Set<string>();
+  for (const table of [DEFAULT_OPTION_SYNONYMS, synonyms]) {
+    for (const [term, alternatives] of Object.entries(table)) {
+      const group = [term, ...alternatives].map(normalizeOptionText);
+      if (group.includes(value)) group.forEach(equivalent => equivalents.add(equivalent));
+    }
+  }
+  equivalents.delete(value);
+  return [...equivalents];
+}
+
+/** Similarity of two strings from their edit distance, between 0 and 1. */
+function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshtein(a, b) / maxLength;
+}
+
+/** Computes the Levenshtein edit distance between two strings. */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
@@ -2,7 +2,7 @@
  * Utility functions for building AI prompts
  */
 
-import type { FieldInfo } from '../core/types';
+import type { FieldInfo, FieldOption } from '../core/types';
 
 /**
  * Build a prompt for filling a single form field
@@ -76,14 +76,10 @@ export function buildParsePrompt(
     prompt += `- ${fieldName} (type: ${field.type})`;
     if (field.label) prompt += ` - Label: "${field.label}"`;
     if (field.placeholder) prompt += ` - Placeholder: "${field.placeholder}"`;
-    if (field.type === 'select' && field.element instanceof HTMLSelectElement) {
-      const options = Array.from(field.element.options).map(opt => opt.textContent?.trim() || '').filter(opt => opt);
-      prompt += ` - Options: [${options.join(', ')}]`;
-    }
-    // Include radio button options
-    if (field.type === 'radio' && field.options) {
-      const optionLabels = field.options.map(opt => opt.label || opt.value);
-      prompt += ` - Options: [${optionLabels.join(', ')}]`;
+    // Include the options of selects, radio groups and checkbox groups with their values
+    if (field.options) {
+      const options = field.options.map(formatOption);
+      prompt += ` - Options${field.multiple ? ' (multiple)' : ''}: [${options.join(', ')}]`;
     }
     // Add format hints for date/time fields
     if (field.type === 'date') {
@@ -104,7 +100,9 @@ export function buildParsePrompt(
     \n
     For checkbox fields, return "true" if the text indicates the option should be checked, "false" or omit otherwise.
     \n
-    For radio fields, return the value (preferred) or label of the selected option.
+    Options are listed as value ("label"). For select and radio fields, return the value (preferred) or label of the selected option.
+    \n
+    For fields with multiple options, return a JSON array with the value (preferred) or label of every selected option.
     \n
     Return ONLY the JSON object, no explanations or markdown formatting.
   `;
@@ -144,6 +142,9 @@ export const SYSTEM_PROMPTS = {
 
 /**
  * Generates a JSON Schema from form fields for structured AI output.
+ * 
+ * Fields with options are restricted to an `enum` of their option values and labels;
+ * the description maps each label to its value.
  */
 export function generateFormSchema(fields: FieldInfo[]): Record<string, any> {
   const properties: Record<string, any> = {};
@@ -180,14 +181,24 @@ export function generateFormSchema(fields: FieldInfo[]): Record<string, any> {
         break;
     }
 
+    // Selects and radio groups take one of their options, multi-selects and checkbox groups a list of them
+    if (fieldElement.options?.length) {
+      const optionSchema = { type: 'string', enum: getOptionEnum(fieldElement.options) };
+      schema = fieldElement.multiple
+        ? { type: 'array', items: optionSchema, uniqueItems: true }
+        : optionSchema;
+    }
+
     if (fieldElement.pattern) {
       schema.pattern = fieldElement.pattern;
     }
 
-    if (fieldElement.placeholder || fieldElement.hint) {
+    const labelMap = fieldElement.options ? describeOptionLabels(fieldElement.options) : '';
+    if (fieldElement.placeholder || fieldElement.hint || labelMap) {
       const parts = [] as string[];
       if (fieldElement.placeholder) parts.push(fieldElement.placeholder);
       if (fieldElement.hint) parts.push(fieldElement.hint);
+      if (labelMap) parts.push(labelMap);
       schema.description = parts.join(' - ');
     }
 
@@ -200,3 +211,23 @@ export function generateFormSchema(fields: FieldInfo[]): Record<string, any> {
     additionalProperties: false,
   };
 }
+
+/** Formats an option for the prompt as `value ("label")`, or just the value if both are equal. */
+function formatOption(option: FieldOption): string {
+  return option.label && option.label !== option.value ? `${option.value} ("${option.label}")` : option.value;
+}
+
+/** Lists the accepted answers for options: every value, followed by the labels that differ from all values. */
+function getOptionEnum(options: FieldOption[]): string[] {
+  const values = options.map(option => option.value);
+  const labels = options.map(option => option.label).filter(label => label && !values.includes(label));
+  return [...new Set([...values, ...labels])];
+}
+
+/** Describes which value each option label stands for; empty if all labels equal their values. */
+function describeOptionLabels(options: FieldOption[]): string {
+  const pairs = options
+    .filter(option => option.label && option.label !== option.value)
+    .map(option => `"${option.label}" = ${option.value}`);
+  return pairs.length > 0 ? `Option labels: ${pairs.join(', ')}` : '';
+}
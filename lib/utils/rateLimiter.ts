@@ -0,0 +1,195 @@
+import type { RateLimitPolicy } from '../core/types';
+import { FillCancelledError, RateLimitQueueFullError } from '../core/errors';
+
+/**
+ * Releases a slot acquired from a {@link RateLimiter}. Calling it more than once has no effect.
+ */
+export type ReleaseSlot = () => void;
+
+/** A request waiting for a slot */
+type QueuedRequest = {
+  resolve: (release: ReleaseSlot) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket with a concurrency limit and a bounded queue
+ *
+ * Every request takes one token from a bucket holding `maxRequests` tokens, which is
+ * refilled continuously over `interval`, and occupies one of `maxConcurrent` slots
+ * until it is released. Waiting requests are served in order.
+ *
+ * A limiter can be shared by several providers to enforce one limit across all of them.
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ maxRequests: 10, interval: 60000, maxConcurrent: 2 });
+ *
+ * const release = await limiter.acquire(signal);
+ * try {
+ *   await fetch(...);
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private maxRequests: number;
+  private interval: number;
+  private maxConcurrent: number;
+  private maxQueueSize: number;
+
+  private tokens: number;
+  private lastRefill: number;
+  private active: number = 0;
+  private pausedUntil: number = 0;
+  private queue: QueuedRequest[] = [];
+  private timerId?: ReturnType<typeof setTimeout>;
+
+  constructor(policy?: RateLimitPolicy) {
+    this.maxRequests = policy?.maxRequests ?? Infinity;
+    this.interval = policy?.interval ?? 1000;
+    this.maxConcurrent = policy?.maxConcurrent ?? Infinity;
+    this.maxQueueSize = policy?.maxQueueSize ?? Infinity;
+    this.tokens = this.maxRequests;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Waits until a request may be sent
+   *
+   * Rejects with {@link FillCancelledError} if the signal aborts while waiting, and with
+   * {@link RateLimitQueueFullError} if the request would have to wait but the queue is full.
+   *
+   * @param signal - Optional signal of the caller
+   * @returns A function that must be called once the request settles
+   */
+  acquire(signal?: AbortSignal): Promise<ReleaseSlot> {
+    if (signal?.aborted) {
+      return Promise.reject(new FillCancelledError(undefined, { cause: signal.reason }));
+    }
+    if (this.queue.length === 0 && this.canStart()) {
+      return Promise.resolve(this.start());
+    }
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new RateLimitQueueFullError(this.maxQueueSize));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: QueuedRequest = { resolve, reject, signal };
+      if (signal) {
+        request.onAbort = () => {
+          this.queue = this.queue.filter(queued => queued !== request);
+          reject(new FillCancelledError(undefined, { cause: signal.reason }));
+          this.drain();
+        };
+        signal.addEventListener('abort', request.onAbort, { once: true });
+      }
+      this.queue.push(request);
+      this.drain();
+    });
+  }
+
+  /**
+   * Runs a task once a slot is available and releases the slot when it settles
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const release = await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Holds back all requests for the given time, e.g. after a 429 `Retry-After`.
+   * Requests that are already running are not affected.
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  /** Returns the number of requests waiting for a slot. */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /** Returns the number of requests holding a slot. */
+  getActiveCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Checks if a request may start now
+   */
+  private canStart(): boolean {
+    this.refill();
+    return Date.now() >= this.pausedUntil && this.active < this.maxConcurrent && this.tokens >= 1;
+  }
+
+  /**
+   * Takes a token and a slot
+   */
+  private start(): ReleaseSlot {
+    this.tokens -= 1;
+    this.active++;
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  /**
+   * Starts as many queued requests as the limits allow and schedules the next check
+   */
+  private drain(): void {
+    if (this.timerId !== undefined) {
+      clearTimeout(this.timerId);
+      this.timerId = undefined;
+    }
+
+    while (this.queue.length > 0 && this.canStart()) {
+      const request = this.queue.shift()!;
+      if (request.onAbort) request.signal?.removeEventListener('abort', request.onAbort);
+      request.resolve(this.start());
+    }
+
+    // Concurrency slots free up on release; tokens and pauses need a timer
+    if (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      this.timerId = setTimeout(() => {
+        this.timerId = undefined;
+        this.drain();
+      }, this.getWaitTime());
+    }
+  }
+
+  /**
+   * Returns the time until the pause ends and a token is available
+   */
+  private getWaitTime(): number {
+    const now = Date.now();
+    const pauseWait = Math.max(0, this.pausedUntil - now);
+    const tokenWait = this.tokens >= 1 ? 0 : ((1 - this.tokens) * this.interval) / this.maxRequests;
+    return Math.max(1, Math.ceil(Math.max(pauseWait, tokenWait)));
+  }
+
+  /**
+   * Adds the tokens accumulated since the last refill
+   */
+  private refill(): void {
+    const now = Date.now();
+    if (this.maxRequests !== Infinity) {
+      const refilled = ((now - this.lastRefill) * this.maxRequests) / this.interval;
+      this.tokens = Math.min(this.maxRequests, this.tokens + refilled);
+    }
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,325 @@
+import type { ChatRequest, ChatResponse } from '../core/types';
+
+/**
+ * A cached provider response
+ */
+export type CacheEntry = {
+  response: ChatResponse;
+  /** Time the entry was stored, in ms since the epoch */
+  createdAt: number;
+}
+
+/**
+ * Storage backend of a {@link ResponseCache}
+ *
+ * All methods may be synchronous or return a promise, so both in-memory and
+ * asynchronous stores (IndexedDB, remote caches) can be plugged in.
+ */
+export interface ResponseCacheStore {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/**
+ * Options of a {@link ResponseCache}
+ *
+ * @param store - Where entries are kept (default: a {@link MemoryCacheStore})
+ * @param ttl - How long an entry stays valid in ms (default: 1 hour, 0 disables expiry)
+ * @param maxEntries - Maximum number of entries; the least recently used ones are evicted
+ *   from any store (default: 100)
+ */
+export type ResponseCacheOptions = {
+  store?: ResponseCacheStore;
+  ttl?: number;
+  maxEntries?: number;
+}
+
+/** Number of entries a cache or store keeps unless configured otherwise. */
+const DEFAULT_MAX_ENTRIES = 100;
+
+/**
+ * In-memory store that evicts the least recently used entry once `maxEntries` is reached
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert to mark the entry as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Store that persists entries in `localStorage` (or any Web Storage object)
+ *
+ * Keys are prefixed so `clear()` only removes cache entries. Once `maxEntries`
+ * is reached the oldest entry is evicted.
+ */
+export class LocalStorageCacheStore implements ResponseCacheStore {
+  private storage: Storage;
+  private prefix: string;
+  private maxEntries: number;
+
+  constructor(options?: { storage?: Storage; prefix?: string; maxEntries?: number }) {
+    this.storage = options?.storage ?? localStorage;
+    this.prefix = options?.prefix ?? 'aff-cache:';
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const stored = this.storage.getItem(this.prefix + key);
+    if (!stored) return undefined;
+
+    try {
+      return JSON.parse(stored) as CacheEntry;
+    } catch {
+      this.storage.removeItem(this.prefix + key);
+      return undefined;
+    }
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.storage.setItem(this.prefix + key, JSON.stringify(entry));
+
+    const entries = this.ownKeys()
+      .map(storageKey => ({ storageKey, createdAt: this.readCreatedAt(storageKey) }))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    for (const { storageKey } of entries.slice(0, Math.max(0, entries.length - this.maxEntries))) {
+      this.storage.removeItem(storageKey);
+    }
+  }
+
+  delete(key: string): void {
+    this.storage.removeItem(this.prefix + key);
+  }
+
+  clear(): void {
+    for (const storageKey of this.ownKeys()) {
+      this.storage.removeItem(storageKey);
+    }
+  }
+
+  /** Returns the storage keys that belong to this cache. */
+  private ownKeys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const storageKey = this.storage.key(i);
+      if (storageKey?.startsWith(this.prefix)) keys.push(storageKey);
+    }
+    return keys;
+  }
+
+  /** Returns the creation time of a stored entry, 0 if it cannot be read. */
+  private readCreatedAt(storageKey: string): number {
+    try {
+      return (JSON.parse(this.storage.getItem(storageKey) ?? '') as CacheEntry).createdAt ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+}
+
+/**
+ * Minimal asynchronous key-value API, as offered by IndexedDB wrappers like idb-keyval
+ */
+export interface AsyncKeyValueStore {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown): Promise<void>;
+  del(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Adapts an asynchronous key-value store (e.g. IndexedDB) to a {@link ResponseCacheStore}
+ *
+ * The keys are tracked in an index entry of the store, so the oldest entry is evicted once
+ * `maxEntries` is reached, across page loads. Expired entries are removed when read.
+ *
+ * @example
+ * ```typescript
+ * import { get, set, del, clear } from 'idb-keyval';
+ *
+ * const store = new AsyncCacheStore({ get, set, del, clear }, { maxEntries: 50 });
+ * ```
+ */
+export class AsyncCacheStore implements ResponseCacheStore {
+  private keyValueStore: AsyncKeyValueStore;
+  private indexKey: string;
+  private maxEntries: number;
+
+  constructor(keyValueStore: AsyncKeyValueStore, options?: { indexKey?: string; maxEntries?: number }) {
+    this.keyValueStore = keyValueStore;
+    this.indexKey = options?.indexKey ?? 'aff-cache-index';
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return (await this.keyValueStore.get(key)) as CacheEntry | undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await this.keyValueStore.set(key, entry);
+
+    const index = [...(await this.readIndex()).filter(indexedKey => indexedKey !== key), key];
+    const evicted = index.splice(0, Math.max(0, index.length - this.maxEntries));
+    await Promise.all(evicted.map(evictedKey => this.keyValueStore.del(evictedKey)));
+    await this.keyValueStore.set(this.indexKey, index);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.keyValueStore.del(key);
+    const index = await this.readIndex();
+    if (index.includes(key)) {
+      await this.keyValueStore.set(this.indexKey, index.filter(indexedKey => indexedKey !== key));
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.keyValueStore.clear();
+  }
+
+  /** Returns the stored keys, oldest first. */
+  private async readIndex(): Promise<string[]> {
+    const index = await this.keyValueStore.get(this.indexKey);
+    return Array.isArray(index) ? index : [];
+  }
+}
+
+/**
+ * Cache for provider responses, keyed on a stable hash of the messages, model,
+ * structured output format and generation options of a request
+ *
+ * Entries beyond `maxEntries` are evicted least recently used first, whatever the store.
+ * Stores that persist across page loads also apply a limit of their own.
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({ store: new LocalStorageCacheStore(), ttl: 10 * 60 * 1000 });
+ * const aiForm = new AIFormFill('ollama', { cache });
+ * ```
+ */
+export class ResponseCache {
+  private store: ResponseCacheStore;
+  private ttl: number;
+  private maxEntries: number;
+  /** Keys used by this cache, least recently used first */
+  private keys = new Set<string>();
+
+  constructor(options?: ResponseCacheOptions) {
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.store = options?.store ?? new MemoryCacheStore(this.maxEntries);
+    this.ttl = options?.ttl ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Returns the cached response for a request, if present and not expired
+   *
+   * @param providerName - Name of the provider, so providers do not share entries
+   */
+  async get(providerName: string, request: ChatRequest): Promise<ChatResponse | undefined> {
+    const key = createCacheKey(providerName, request);
+    const entry = await this.store.get(key);
+    if (!entry) return undefined;
+
+    if (this.ttl > 0 && Date.now() - entry.createdAt > this.ttl) {
+      this.keys.delete(key);
+      await this.store.delete(key);
+      return undefined;
+    }
+    this.touch(key);
+    return entry.response;
+  }
+
+  /**
+   * Stores the response for a request
+   */
+  async set(providerName: string, request: ChatRequest, response: ChatResponse): Promise<void> {
+    const key = createCacheKey(providerName, request);
+    await this.store.set(key, { response, createdAt: Date.now() });
+
+    this.touch(key);
+    for (const evicted of [...this.keys].slice(0, Math.max(0, this.keys.size - this.maxEntries))) {
+      this.keys.delete(evicted);
+      await this.store.delete(evicted);
+    }
+  }
+
+  /**
+   * Removes all cached responses
+   */
+  async clear(): Promise<void> {
+    this.keys.clear();
+    await this.store.clear();
+  }
+
+  /** Marks a key as most recently used. */
+  private touch(key: string): void {
+    this.keys.delete(key);
+    this.keys.add(key);
+  }
+}
+
+/**
+ * Builds the cache key of a request: a hash of everything that influences the response.
+ * The signal is not part of the key.
+ */
+export function createCacheKey(providerName: string, request: ChatRequest): string {
+  const { signal: _signal, ...cacheRelevant } = request;
+  return hashString(stableStringify({ provider: providerName, ...cacheRelevant }));
+}
+
+/**
+ * JSON.stringify with sorted object keys, so equal objects always produce the same string
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value) ?? 'null';
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entryValue]) => entryValue !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`);
+  return `{${entries.join(',')}}`;
+}
+
+/** 53-bit string hash (cyrb53), returned as hex. */
+function hashString(input: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
@@ -0,0 +1,97 @@
+import type { RetryPolicy } from '../core/types';
+import {
+  FillCancelledError,
+  ProviderConnectionError,
+  ProviderHttpError,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+} from '../core/errors';
+
+/**
+ * Retry policy values used for options that are not set
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: 'full',
+  retryableStatuses: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+};
+
+/**
+ * Fills in the defaults of a retry policy.
+ * Without a policy only a single attempt is made.
+ */
+export function resolveRetryPolicy(policy?: RetryPolicy): Required<RetryPolicy> {
+  if (!policy) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+  for (const [key, value] of Object.entries(policy)) {
+    if (value !== undefined) (resolved as Record<string, unknown>)[key] = value;
+  }
+  resolved.maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+  return resolved;
+}
+
+/**
+ * Checks if a failed request should be retried: timeouts, connection errors
+ * and HTTP errors with a retryable status. Cancellation is never retried.
+ */
+export function isRetryableError(error: unknown, policy: Required<RetryPolicy>): boolean {
+  if (error instanceof FillCancelledError) return false;
+  if (error instanceof ProviderTimeoutError || error instanceof ProviderConnectionError) return true;
+  if (error instanceof ProviderHttpError) return policy.retryableStatuses.includes(error.status);
+  return false;
+}
+
+/**
+ * Computes the delay before the next attempt
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - Number of the attempt that failed, starting at 1
+ * @param error - The error of the failed attempt, used for `Retry-After` (capped at `maxDelay`)
+ * @param random - Random number generator in [0, 1), replaceable for tests
+ */
+export function getRetryDelay(
+  policy: Required<RetryPolicy>,
+  attempt: number,
+  error?: unknown,
+  random: () => number = Math.random,
+): number {
+  if (policy.respectRetryAfter && error instanceof ProviderRateLimitError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+  switch (policy.jitter) {
+    case 'full':
+      return Math.round(random() * backoff);
+    case 'equal':
+      return Math.round(backoff / 2 + random() * (backoff / 2));
+    default:
+      return backoff;
+  }
+}
+
+/**
+ * Waits for the given time, rejecting with {@link FillCancelledError} if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new FillCancelledError(undefined, { cause: signal.reason }));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new FillCancelledError(undefined, { cause: signal?.reason }));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,75 @@
+import type { ChatMessage, ChatStream, ModelPricing, PricingTable, TokenUsage, UsageSummary } from '../core/types';
+
+/** Rough number of characters per token, used when a provider reports no usage. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Builds a TokenUsage from provider counts, or undefined if the provider reported none
+ */
+export function createTokenUsage(
+  inputTokens?: number,
+  outputTokens?: number,
+  totalTokens?: number,
+): TokenUsage | undefined {
+  if (inputTokens === undefined && outputTokens === undefined && totalTokens === undefined) return undefined;
+
+  return {
+    inputTokens: inputTokens ?? 0,
+    outputTokens: outputTokens ?? 0,
+    totalTokens: totalTokens ?? (inputTokens ?? 0) + (outputTokens ?? 0),
+  };
+}
+
+/**
+ * Estimates the usage of a request from the length of its messages and response
+ */
+export function estimateTokenUsage(messages: ChatMessage[], content: string): TokenUsage {
+  const inputChars = messages.reduce((sum, message) => sum + message.content.length, 0);
+  const inputTokens = Math.ceil(inputChars / CHARS_PER_TOKEN);
+  const outputTokens = Math.ceil(content.length / CHARS_PER_TOKEN);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens };
+}
+
+/**
+ * Passes the deltas of a chat stream through and hands the usage it returns to `onUsage`
+ * once the stream ends. Closing the returned stream closes the source.
+ */
+export async function* captureStreamUsage(
+  stream: ChatStream,
+  onUsage: (usage: TokenUsage | undefined) => void,
+): ChatStream {
+  const usage = yield* stream;
+  onUsage(usage || undefined);
+  return usage;
+}
+
+/**
+ * Finds the price of a model: the exact key, otherwise the longest key the model name starts with
+ */
+export function findModelPricing(model: string, pricing: PricingTable): ModelPricing | undefined {
+  if (pricing[model]) return pricing[model];
+
+  const prefix = Object.keys(pricing)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+/**
+ * Computes the cost of a request from prices per million tokens
+ * 
+ * @returns The cost, or undefined if the model has no price
+ */
+export function calculateCost(usage: TokenUsage, model: string, pricing?: PricingTable): number | undefined {
+  const modelPricing = pricing && findModelPricing(model, pricing);
+  if (!modelPricing) return undefined;
+
+  return (usage.inputTokens * modelPricing.input + usage.outputTokens * modelPricing.output) / 1_000_000;
+}
+
+/**
+ * Returns an empty usage summary
+ */
+export function createUsageSummary(): UsageSummary {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0, requests: 0, cost: 0 };
+}
@@ -15,10 +15,16 @@ export default defineMock([
         model: requestBody.model,
         messages: requestBody.messages,
         max_tokens: requestBody.maxTokens,
-        response_format: { type: "json_schema", json_schema: {
+        temperature: requestBody.temperature,
+        seed: requestBody.seed,
+        response_format: requestBody.format && { type: "json_schema", json_schema: {
           name: "form_schema",
           schema: requestBody.format
         }},
+        tools: requestBody.tools?.map((tool: { name: string }) => ({ type: "function", function: tool })),
+        tool_choice: requestBody.tools && (typeof requestBody.toolChoice === 'object'
+          ? { type: "function", function: { name: requestBody.toolChoice.name } }
+          : requestBody.toolChoice),
       })
       
     },
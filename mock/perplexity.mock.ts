@@ -16,7 +16,8 @@ export default defineMock([
       return await endpointObject.chat.completions.create({
         model: requestBody.model,
         messages: requestBody.messages,
-        max_tokens: requestBody.maxTokens
+        max_tokens: requestBody.maxTokens,
+        temperature: requestBody.temperature,
       })
       
     },
@@ -1,6 +1,17 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { JSDOM } from 'jsdom';
 import { AIFormFill } from '../../lib/core/aiFormFill';
+import { AFF_EVENTS, type BeforeFieldSetEventDetail } from '../../lib/core/events';
+import {
+  BudgetExceededError,
+  FillCancelledError,
+  JsonParseError,
+  MalformedResponseError,
+} from '../../lib/core/errors';
+import type { ChatMessage, ChatRequest, ChatResponse, TokenUsage } from '../../lib/core/types';
+import { OpenAICompatibleProvider } from '../../lib/providers/openaiCompatible';
+import type { ProviderConfig } from '../../lib/providers/aiProvider';
+import { createCallbackLogger, type LogEntry } from '../../lib/utils/logger';
 import { MockAIProvider } from '../mockProvider';
 
 // Setup jsdom for each test
@@ -183,5 +194,1017 @@ describe('AIFormFill', () => {
       // Original value should remain unchanged after error
       expect(name?.value).toBe('original');
     });
+
+    it('returns a report for every targeted field', async () => {
+      const mockProvider = new MockAIProvider(
+        JSON.stringify({
+          name: 'John',
+          phone: 'n/a',
+          country: 'Atlantis',
+        })
+      );
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="tel" name="phone">
+        <input type="email" name="email">
+        <select name="country">
+          <option value="de">Germany</option>
+        </select>
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      const result = await aiFormFill.parseAndFillForm(form, 'John from Atlantis');
+      
+      expect(result.provider).toBe('mock');
+      expect(result.model).toBe('mock-model');
+      expect(result.rawResponse).toContain('John');
+      expect(result.error).toBeUndefined();
+
+      const byField = Object.fromEntries(result.fields.map(report => [report.field, report]));
+      expect(byField.name).toMatchObject({ status: 'filled', rawValue: 'John', appliedValue: 'John' });
+      expect(byField.phone).toMatchObject({ status: 'skipped-empty', rawValue: 'n/a' });
+      expect(byField.email.status).toBe('skipped-no-match');
+      expect(byField.country).toMatchObject({ status: 'failed-to-set', rawValue: 'Atlantis' });
+      expect(byField.country.reason).toBeDefined();
+    });
+
+    it('fills valid fields when other values do not match the schema', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({
+        firstName: 'John',
+        age: 'unknown',
+        newsletter: 'yes',
+        score: 'high',
+      }));
+      mockProvider.supportsStructuredOutput = () => true;
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName">
+        <input type="number" name="age">
+        <input type="checkbox" name="newsletter">
+        <input type="number" name="score">
+      `;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider).parseAndFillForm(form, 'John, no age given, subscribe me');
+      
+      expect(result.error).toBeUndefined();
+      const byField = Object.fromEntries(result.fields.map(report => [report.field, report]));
+      expect(byField.firstName.status).toBe('filled');
+      expect(byField.age.status).toBe('skipped-empty');
+      expect(byField.newsletter.status).toBe('filled');
+      expect((form.querySelector('[name="newsletter"]') as HTMLInputElement).checked).toBe(true);
+      expect(byField.score).toMatchObject({ status: 'failed-to-set', rawValue: 'high' });
+      expect(byField.score.reason).toContain('"score" should be a number');
+    });
+
+    it('reports every field when the response cannot be parsed', async () => {
+      const mockProvider = new MockAIProvider('not valid json');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name"><input type="email" name="email">`;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider).parseAndFillForm(form, 'John');
+      
+      expect(result.error).toBeInstanceOf(JsonParseError);
+      expect(result.fields.map(report => [report.field, report.status])).toEqual([
+        ['name', 'skipped-no-match'],
+        ['email', 'skipped-no-match'],
+      ]);
+    });
+
+    it('reports provider errors in the result instead of throwing', async () => {
+      const mockProvider = new MockAIProvider();
+      mockProvider.chat = async () => { throw new Error('provider down'); };
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="email" name="email">
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      const result = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(result.fields.map(report => [report.field, report.status])).toEqual([
+        ['name', 'skipped-no-match'],
+        ['email', 'skipped-no-match'],
+      ]);
+      expect(result.fields[0].reason).toBe('No value extracted: provider down');
+      expect(result.rawResponse).toBeNull();
+      expect((result.error as Error).message).toBe('provider down');
+    });
+
+    it('fills multi-selects and checkbox groups from array values', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({
+        'interests[]': ['sports', 'travel'],
+        languages: ['English', 'French'],
+      }));
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="checkbox" name="interests[]" value="sports">
+        <input type="checkbox" name="interests[]" value="music">
+        <input type="checkbox" name="interests[]" value="travel">
+        <select name="languages" multiple>
+          <option value="de">German</option>
+          <option value="en">English</option>
+          <option value="fr">French</option>
+        </select>
+      `;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider).parseAndFillForm(form, 'Likes sports and travel, speaks English and French');
+      
+      const checked = Array.from(form.querySelectorAll<HTMLInputElement>('input:checked')).map(input => input.value);
+      const select = form.querySelector('select')!;
+      expect(checked).toEqual(['sports', 'travel']);
+      expect(Array.from(select.selectedOptions).map(option => option.value)).toEqual(['en', 'fr']);
+      expect(result.fields.map(report => report.appliedValue)).toEqual(['["sports","travel"]', '["en","fr"]']);
+    });
+
+    it('reports the option match score in fuzzy mode', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ country: 'USA' }));
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <select name="country">
+          <option value="">Choose...</option>
+          <option value="1">United Kingdom</option>
+          <option value="2">United States</option>
+        </select>
+      `;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider, { optionMatching: 'fuzzy' }).parseAndFillForm(form, 'Lives in the USA');
+      
+      expect(form.querySelector('select')!.value).toBe('2');
+      expect(result.fields[0].status).toBe('filled');
+      expect(result.fields[0].match?.score).toBeGreaterThanOrEqual(0.8);
+      expect(result.fields[0].match?.runnerUp?.label).toBe('United Kingdom');
+    });
+  });
+
+  describe('extractFormValues / applyProposal', () => {
+    it('proposes values without touching the DOM', async () => {
+      const mockProvider = new MockAIProvider(
+        JSON.stringify({ firstName: 'John', newsletter: 'true' })
+      );
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName">
+        <input type="checkbox" name="newsletter">
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      const proposal = await aiFormFill.extractFormValues(form, 'John, subscribe me');
+      
+      expect(proposal.fields.map(f => [f.field, f.value])).toEqual([
+        ['firstName', 'John'],
+        ['newsletter', 'true'],
+      ]);
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('');
+      expect(form.querySelector<HTMLInputElement>('[name="newsletter"]')?.checked).toBe(false);
+    });
+
+    it('applies only the selected subset of a proposal', async () => {
+      const mockProvider = new MockAIProvider(
+        JSON.stringify({ firstName: 'John', newsletter: 'true' })
+      );
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName">
+        <input type="checkbox" name="newsletter">
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      const proposal = await aiFormFill.extractFormValues(form, 'John, subscribe me');
+      const result = aiFormFill.applyProposal(proposal, ['newsletter']);
+      
+      expect(result.fields).toHaveLength(1);
+      expect(result.fields[0]).toMatchObject({ field: 'newsletter', status: 'filled', appliedValue: 'true' });
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('');
+      expect(form.querySelector<HTMLInputElement>('[name="newsletter"]')?.checked).toBe(true);
+    });
+
+    it('applies values edited on the proposal', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ firstName: 'Jon' }));
+      
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="firstName">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      const proposal = await aiFormFill.extractFormValues(form, 'Jon');
+      proposal.fields[0].value = 'John';
+      aiFormFill.applyProposal(proposal);
+      
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('John');
+    });
+  });
+
+  describe('undo', () => {
+    it('restores the state before the last fill and dispatches events', async () => {
+      const mockProvider = new MockAIProvider(
+        JSON.stringify({ name: 'John', newsletter: 'true', size: 'l', country: 'us' })
+      );
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name" value="Jane">
+        <input type="checkbox" name="newsletter">
+        <label><input type="radio" name="size" value="m" checked> Medium</label>
+        <label><input type="radio" name="size" value="l"> Large</label>
+        <select name="country">
+          <option value="de" selected>Germany</option>
+          <option value="us">USA</option>
+        </select>
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      await aiFormFill.parseAndFillForm(form, 'John, size L, from the US');
+      
+      const name = form.querySelector<HTMLInputElement>('[name="name"]')!;
+      const changes: string[] = [];
+      name.addEventListener('change', () => changes.push(name.value));
+      
+      expect(aiFormFill.canUndo()).toBe(true);
+      expect(aiFormFill.undo()).toBe(true);
+      
+      expect(name.value).toBe('Jane');
+      expect(changes).toEqual(['Jane']);
+      expect(form.querySelector<HTMLInputElement>('[name="newsletter"]')?.checked).toBe(false);
+      expect(form.querySelector<HTMLInputElement>('[value="m"]')?.checked).toBe(true);
+      expect(form.querySelector<HTMLSelectElement>('[name="country"]')?.value).toBe('de');
+      expect(aiFormFill.canUndo()).toBe(false);
+      expect(aiFormFill.undo()).toBe(false);
+    });
+
+    it('undoes stacked fills in reverse order', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'First' }));
+      
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      const name = form.querySelector<HTMLInputElement>('[name="name"]')!;
+      
+      const aiFormFill = new AIFormFill(mockProvider);
+      await aiFormFill.parseAndFillForm(form, 'First');
+      mockProvider.setMockResponse(JSON.stringify({ name: 'Second' }));
+      await aiFormFill.parseAndFillForm(form, 'Second');
+      mockProvider.setMockResponse('Third');
+      await aiFormFill.fillSingleField(name);
+      
+      expect(name.value).toBe('Third');
+      aiFormFill.undo();
+      expect(name.value).toBe('Second');
+      aiFormFill.undo();
+      expect(name.value).toBe('First');
+      aiFormFill.undo();
+      expect(name.value).toBe('');
+    });
+  });
+
+  describe('overwrite policy', () => {
+    function createForm(): HTMLFormElement {
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName" value="Typed by user">
+        <input type="text" name="lastName">
+        <input type="checkbox" name="terms" checked>
+      `;
+      document.body.appendChild(form);
+      return form;
+    }
+
+    it('overwrites existing values by default', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ firstName: 'John', terms: 'false' }));
+      const form = createForm();
+      
+      await new AIFormFill(mockProvider).parseAndFillForm(form, 'John');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('John');
+      expect(form.querySelector<HTMLInputElement>('[name="terms"]')?.checked).toBe(false);
+    });
+
+    it('only fills empty fields with "empty-only"', async () => {
+      const mockProvider = new MockAIProvider(
+        JSON.stringify({ firstName: 'John', lastName: 'Doe', terms: 'false' })
+      );
+      const form = createForm();
+      
+      const aiFormFill = new AIFormFill(mockProvider, { overwrite: 'empty-only' });
+      const result = await aiFormFill.parseAndFillForm(form, 'John Doe');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('Typed by user');
+      expect(form.querySelector<HTMLInputElement>('[name="lastName"]')?.value).toBe('Doe');
+      expect(form.querySelector<HTMLInputElement>('[name="terms"]')?.checked).toBe(true);
+      expect(result.fields.find(f => f.field === 'firstName')?.status).toBe('skipped-existing-value');
+    });
+
+    it('re-fills AI values but keeps user edits with "ai-filled-only"', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ lastName: 'Doe' }));
+      const form = createForm();
+      const lastName = form.querySelector<HTMLInputElement>('[name="lastName"]')!;
+      
+      const aiFormFill = new AIFormFill(mockProvider, { overwrite: 'ai-filled-only' });
+      await aiFormFill.parseAndFillForm(form, 'Doe');
+      expect(lastName.value).toBe('Doe');
+      
+      mockProvider.setMockResponse(JSON.stringify({ lastName: 'Smith' }));
+      await aiFormFill.parseAndFillForm(form, 'Smith');
+      expect(lastName.value).toBe('Smith');
+      
+      lastName.value = 'Edited';
+      await aiFormFill.parseAndFillForm(form, 'Smith');
+      expect(lastName.value).toBe('Edited');
+    });
+
+    it('lets data-aff-overwrite override the instance policy', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ firstName: 'John', nickname: 'Johnny' }));
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName" value="Jane" data-aff-overwrite="always">
+        <input type="text" name="nickname" value="JJ">
+      `;
+      document.body.appendChild(form);
+      
+      await new AIFormFill(mockProvider, { overwrite: 'empty-only' }).parseAndFillForm(form, 'John');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="firstName"]')?.value).toBe('John');
+      expect(form.querySelector<HTMLInputElement>('[name="nickname"]')?.value).toBe('JJ');
+    });
+  });
+
+  describe('hooks and events', () => {
+    it('lets beforePrompt replace the messages sent to the provider', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      let sentMessages: ChatMessage[] = [];
+      const chat = mockProvider.chat.bind(mockProvider);
+      mockProvider.chat = async (params) => {
+        sentMessages = params.messages;
+        return chat(params);
+      };
+      
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, {
+        hooks: {
+          beforePrompt: (messages) => [...messages, { role: 'user', content: 'extra' }],
+        },
+      });
+      await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(sentMessages).toHaveLength(3);
+      expect(sentMessages[2].content).toBe('extra');
+    });
+
+    it('lets beforeFieldSet transform or veto values', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'john', secret: 'hunter2' }));
+      
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="text" name="secret">
+      `;
+      document.body.appendChild(form);
+      
+      const afterFieldSet = vi.fn();
+      const aiFormFill = new AIFormFill(mockProvider, {
+        hooks: {
+          beforeFieldSet: (field, value) => field.name === 'secret' ? false : value.toUpperCase(),
+          afterFieldSet,
+        },
+      });
+      const result = await aiFormFill.parseAndFillForm(form, 'john');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('JOHN');
+      expect(form.querySelector<HTMLInputElement>('[name="secret"]')?.value).toBe('');
+      expect(result.fields.find(f => f.field === 'secret')?.status).toBe('skipped-by-hook');
+      expect(afterFieldSet).toHaveBeenCalledTimes(2);
+    });
+
+    it('calls afterResponse and onError hooks', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const afterResponse = vi.fn();
+      const onError = vi.fn();
+      const aiFormFill = new AIFormFill(mockProvider, { hooks: { afterResponse, onError } });
+      await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(afterResponse).toHaveBeenCalledWith(expect.objectContaining({ content: '{"name":"John"}' }));
+      expect(onError).not.toHaveBeenCalled();
+      
+      mockProvider.chat = async () => { throw new Error('offline'); };
+      await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'offline' }));
+    });
+
+    it('dispatches cancelable DOM events on the form', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John', city: 'Berlin' }));
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="text" name="city">
+      `;
+      document.body.appendChild(form);
+      
+      const events: string[] = [];
+      for (const name of Object.values(AFF_EVENTS)) {
+        form.addEventListener(name, () => events.push(name));
+      }
+      form.addEventListener(AFF_EVENTS.BEFORE_FIELD_SET, (event) => {
+        const detail = (event as CustomEvent<BeforeFieldSetEventDetail>).detail;
+        if (detail.field.name === 'city') event.preventDefault();
+        detail.value = `${detail.value}!`;
+      });
+      
+      await new AIFormFill(mockProvider).parseAndFillForm(form, 'John from Berlin');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('John!');
+      expect(form.querySelector<HTMLInputElement>('[name="city"]')?.value).toBe('');
+      expect(events).toEqual([
+        AFF_EVENTS.BEFORE_PROMPT,
+        AFF_EVENTS.AFTER_RESPONSE,
+        AFF_EVENTS.BEFORE_FIELD_SET,
+        AFF_EVENTS.AFTER_FIELD_SET,
+        AFF_EVENTS.BEFORE_FIELD_SET,
+        AFF_EVENTS.AFTER_FIELD_SET,
+      ]);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('rejects with FillCancelledError and writes nothing when aborted mid-request', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      let releaseChat!: () => void;
+      const chatGate = new Promise<void>(resolve => { releaseChat = resolve; });
+      const chat = mockProvider.chat.bind(mockProvider);
+      mockProvider.chat = async (params) => {
+        await chatGate;
+        return chat(params);
+      };
+      
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const controller = new AbortController();
+      const aiFormFill = new AIFormFill(mockProvider);
+      const fill = aiFormFill.parseAndFillForm(form, 'John', { signal: controller.signal });
+      controller.abort();
+      releaseChat();
+      
+      await expect(fill).rejects.toBeInstanceOf(FillCancelledError);
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('');
+      expect(aiFormFill.canUndo()).toBe(false);
+    });
+
+    it('does not call the provider when the signal is already aborted', async () => {
+      const mockProvider = new MockAIProvider('Generated');
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      
+      const controller = new AbortController();
+      controller.abort();
+      const aiFormFill = new AIFormFill(mockProvider);
+      
+      await expect(aiFormFill.fillSingleField(input, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(FillCancelledError);
+      expect(chatSpy).not.toHaveBeenCalled();
+      expect(input.value).toBe('');
+    });
+
+    it('writes and proposes nothing when aborted during the afterResponse hook', async () => {
+      let controller = new AbortController();
+      const afterResponse = vi.fn(async () => { controller.abort(); });
+      const input = document.createElement('input');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.append(input, form);
+      
+      const fieldFill = new AIFormFill(new MockAIProvider('Generated'), { hooks: { afterResponse } });
+      const formFill = new AIFormFill(new MockAIProvider(JSON.stringify({ name: 'John' })), { hooks: { afterResponse } });
+      
+      await expect(fieldFill.fillSingleField(input, { signal: controller.signal }))
+        .rejects.toBeInstanceOf(FillCancelledError);
+      controller = new AbortController();
+      await expect(formFill.extractFormValues(form, 'John', { signal: controller.signal }))
+        .rejects.toBeInstanceOf(FillCancelledError);
+      expect(afterResponse).toHaveBeenCalledTimes(2);
+      expect(input.value).toBe('');
+    });
+
+    it('passes the signal to the provider', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const controller = new AbortController();
+      await new AIFormFill(mockProvider).parseAndFillForm(form, 'John', { signal: controller.signal });
+      
+      expect(chatSpy.mock.calls[0][0].signal).toBe(controller.signal);
+    });
+  });
+
+  describe('streaming', () => {
+    /** Makes the mock provider stream its response in the given chunks, returning `usage` at the end */
+    function streamChunks(
+      provider: MockAIProvider,
+      chunks: string[],
+      onChunk?: (index: number) => void,
+      usage?: TokenUsage,
+    ) {
+      provider.chatStream = async function* () {
+        for (const [index, chunk] of chunks.entries()) {
+          onChunk?.(index);
+          yield chunk;
+        }
+        return usage;
+      };
+    }
+
+    it('fills each field as soon as its value is complete', async () => {
+      const mockProvider = new MockAIProvider();
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="firstName">
+        <input type="text" name="lastName">
+      `;
+      document.body.appendChild(form);
+      const firstName = form.querySelector<HTMLInputElement>('[name="firstName"]')!;
+      const valuesSeen: string[] = [];
+      streamChunks(mockProvider, ['{"firstName": "Jo', 'hn", "lastN', 'ame": "Doe"}'], () => {
+        valuesSeen.push(firstName.value);
+      });
+      
+      const aiFormFill = new AIFormFill(mockProvider, { stream: true });
+      const result = await aiFormFill.parseAndFillForm(form, 'John Doe');
+      
+      expect(valuesSeen).toEqual(['', '', 'John']);
+      expect(form.querySelector<HTMLInputElement>('[name="lastName"]')?.value).toBe('Doe');
+      expect(result.rawResponse).toBe('{"firstName": "John", "lastName": "Doe"}');
+      expect(result.fields.map(report => report.status)).toEqual(['filled', 'filled']);
+      expect(aiFormFill.canUndo()).toBe(true);
+    });
+
+    it('reports fields missing from the stream as skipped-no-match', async () => {
+      const mockProvider = new MockAIProvider();
+      streamChunks(mockProvider, ['{"name": "John"}']);
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="text" name="city">
+      `;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider, { stream: true }).parseAndFillForm(form, 'John');
+      
+      expect(result.fields.map(report => report.status)).toEqual(['filled', 'skipped-no-match']);
+    });
+
+    it('restores fields already written when aborted mid-stream', async () => {
+      const mockProvider = new MockAIProvider();
+      const controller = new AbortController();
+      streamChunks(mockProvider, ['{"name": "John", ', '"city": "Berlin"}'], index => {
+        if (index === 1) controller.abort();
+      });
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="text" name="city">
+      `;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { stream: true });
+      
+      await expect(aiFormFill.parseAndFillForm(form, 'John', { signal: controller.signal }))
+        .rejects.toBeInstanceOf(FillCancelledError);
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('');
+      expect(aiFormFill.canUndo()).toBe(false);
+    });
+
+    it('reads and writes the response cache', async () => {
+      const mockProvider = new MockAIProvider();
+      streamChunks(mockProvider, ['{"name": "Jo', 'hn"}']);
+      const streamSpy = vi.spyOn(mockProvider, 'chatStream');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { stream: true, cache: true });
+      const first = await aiFormFill.parseAndFillForm(form, 'John');
+      form.querySelector<HTMLInputElement>('[name="name"]')!.value = '';
+      const second = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(first.cacheHit).toBe(false);
+      expect(second.cacheHit).toBe(true);
+      expect(second.rawResponse).toBe('{"name": "John"}');
+      expect(second.fields[0].status).toBe('filled');
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('John');
+      expect(streamSpy).toHaveBeenCalledOnce();
+      expect(aiFormFill.getUsage().requests).toBe(1);
+    });
+
+    it('checks streamed values against the schema like regular responses', async () => {
+      const mockProvider = new MockAIProvider();
+      mockProvider.supportsStructuredOutput = () => true;
+      streamChunks(mockProvider, ['{"name": "John", "age": {"x"', ': 1}}']);
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="number" name="age">
+      `;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider, { stream: true }).parseAndFillForm(form, 'John');
+      
+      expect(result.error).toBeUndefined();
+      expect(result.fields[0].status).toBe('filled');
+      expect(result.fields[1].status).toBe('failed-to-set');
+      expect(result.fields[1].reason).toContain('"age" should be a number');
+      expect(form.querySelector<HTMLInputElement>('[name="age"]')?.value).toBe('');
+    });
+
+    it('records the usage reported by the stream, or an estimate', async () => {
+      const mockProvider = new MockAIProvider();
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      const aiFormFill = new AIFormFill(mockProvider, { stream: true });
+      
+      streamChunks(mockProvider, ['{"name": "John"}'], undefined, { inputTokens: 50, outputTokens: 5, totalTokens: 55 });
+      const reported = await aiFormFill.parseAndFillForm(form, 'John');
+      streamChunks(mockProvider, ['{"name": "John"}']);
+      const estimated = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(reported.usage).toEqual({ inputTokens: 50, outputTokens: 5, totalTokens: 55 });
+      expect(estimated.usage).toMatchObject({ outputTokens: 4, estimated: true });
+      expect(aiFormFill.getUsage()).toMatchObject({ requests: 2, outputTokens: 9 });
+    });
+
+    it('uses chat when streaming is not enabled', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      streamChunks(mockProvider, ['{"name": "Streamed"}']);
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      await new AIFormFill(mockProvider).parseAndFillForm(form, 'John');
+      
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('John');
+    });
+  });
+
+  describe('retry reporting', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    /** Stubs a completions API whose first request fails with a connection error */
+    function stubFlakyFetch() {
+      const fetchMock = vi.fn()
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockImplementation(async () => Response.json({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'qwen2.5-7b-instruct',
+          choices: [{ index: 0, message: { role: 'assistant', content: '{"name": "John"}' }, finish_reason: 'stop' }],
+        }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    /** Creates a provider that retries once against the stubbed API */
+    function createRetryingProvider(config: ProviderConfig = {}) {
+      return new OpenAICompatibleProvider({
+        apiEndpoint: 'http://localhost:1234/v1/',
+        model: 'qwen2.5-7b-instruct',
+        retry: { maxAttempts: 2, baseDelay: 0 },
+        ...config,
+      });
+    }
+
+    it('forwards provider retries to the onRetry hook', async () => {
+      const fetchMock = stubFlakyFetch();
+      const onRetry = vi.fn();
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      await new AIFormFill(createRetryingProvider(), { hooks: { onRetry } }).parseAndFillForm(form, 'John');
+      
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledOnce();
+      expect(onRetry.mock.calls[0][0]).toMatchObject({ operation: 'chat', attempt: 1, maxAttempts: 2 });
+      expect(form.querySelector<HTMLInputElement>('[name="name"]')?.value).toBe('John');
+    });
+
+    it('stops reporting retries of a replaced provider', async () => {
+      const fetchMock = stubFlakyFetch();
+      const oldProvider = createRetryingProvider();
+      const onRetry = vi.fn();
+      const aiFormFill = new AIFormFill(oldProvider, { hooks: { onRetry } });
+      
+      aiFormFill.setProvider(new MockAIProvider());
+      await oldProvider.chat({ messages: [], model: 'qwen2.5-7b-instruct' });
+      
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('stops reporting retries once disposed', async () => {
+      const fetchMock = stubFlakyFetch();
+      const provider = createRetryingProvider();
+      const onRetry = vi.fn();
+      const aiFormFill = new AIFormFill(provider, { hooks: { onRetry } });
+      
+      aiFormFill.dispose();
+      await provider.chat({ messages: [], model: 'qwen2.5-7b-instruct' });
+      
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('logs each retry once', async () => {
+      stubFlakyFetch();
+      const entries: LogEntry[] = [];
+      const logger = createCallbackLogger(entry => entries.push(entry), { level: 'warn' });
+      const provider = createRetryingProvider({ logger });
+      new AIFormFill(provider, { logger });
+      
+      await provider.chat({ messages: [], model: 'qwen2.5-7b-instruct' });
+      
+      expect(entries.filter(entry => entry.message.includes('retrying'))).toHaveLength(1);
+      expect(entries).toHaveLength(1);
+    });
+  });
+
+  describe('usage accounting', () => {
+    /** Makes the mock provider report the given token counts */
+    function withUsage(provider: MockAIProvider, inputTokens: number, outputTokens: number) {
+      const chat = provider.chat.bind(provider);
+      provider.chat = async (params) => ({
+        ...await chat(params),
+        usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      });
+      return provider;
+    }
+
+    it('reports usage and cost per fill and keeps a cumulative counter', async () => {
+      const mockProvider = withUsage(new MockAIProvider(JSON.stringify({ name: 'John' })), 1000, 200);
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, {
+        pricing: { 'mock-model': { input: 1, output: 5 } },
+      });
+      const result = await aiFormFill.parseAndFillForm(form, 'John');
+      await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(result.usage).toEqual({ inputTokens: 1000, outputTokens: 200, totalTokens: 1200, cost: 0.002 });
+      expect(aiFormFill.getUsage()).toEqual({ inputTokens: 2000, outputTokens: 400, totalTokens: 2400, requests: 2, cost: 0.004 });
+      
+      aiFormFill.resetUsage();
+      expect(aiFormFill.getUsage().totalTokens).toBe(0);
+    });
+
+    it('refuses to call the provider once the budget is exhausted', async () => {
+      const mockProvider = withUsage(new MockAIProvider(JSON.stringify({ name: 'John' })), 800, 200);
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { budget: { maxTokens: 1000 } });
+      await aiFormFill.parseAndFillForm(form, 'John');
+      const result = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(result.error).toBeInstanceOf(BudgetExceededError);
+      expect((result.error as BudgetExceededError).usage.totalTokens).toBe(1000);
+      expect(chatSpy).toHaveBeenCalledOnce();
+    });
+
+    it('estimates the usage of providers that report none, so budgets still apply', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { budget: { maxTokens: 1 } });
+      const first = await aiFormFill.parseAndFillForm(form, 'John');
+      const second = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(first.usage).toMatchObject({ outputTokens: 4, estimated: true });
+      expect(first.usage!.inputTokens).toBeGreaterThan(0);
+      expect(second.error).toBeInstanceOf(BudgetExceededError);
+      expect(chatSpy).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('tool-call extraction', () => {
+    /** Mock provider that answers with a fill_form tool call */
+    class ToolCallingProvider extends MockAIProvider {
+      protected supportsToolCalling = true;
+      lastRequest?: ChatRequest;
+
+      async chat(params: ChatRequest): Promise<ChatResponse> {
+        this.lastRequest = params;
+        return {
+          content: null,
+          model: 'mock-model',
+          toolCalls: [{ id: 'call_1', name: 'fill_form', arguments: JSON.stringify({ name: 'John', email: 'john@example.com' }) }],
+        };
+      }
+    }
+
+    function createForm(): HTMLFormElement {
+      const form = document.createElement('form');
+      form.innerHTML = `
+        <input type="text" name="name">
+        <input type="email" name="email">
+      `;
+      document.body.appendChild(form);
+      return form;
+    }
+
+    it('sends the form schema as a forced tool and fills from the call arguments', async () => {
+      const provider = new ToolCallingProvider();
+      const form = createForm();
+      
+      const aiFormFill = new AIFormFill(provider, { extractionStrategy: 'tool-call' });
+      const result = await aiFormFill.parseAndFillForm(form, 'John, john@example.com');
+      
+      expect(provider.lastRequest?.format).toBeUndefined();
+      expect(provider.lastRequest?.tools).toEqual([expect.objectContaining({
+        name: 'fill_form',
+        parameters: expect.objectContaining({ properties: expect.objectContaining({ email: expect.anything() }) }),
+      })]);
+      expect(provider.lastRequest?.toolChoice).toEqual({ name: 'fill_form' });
+      expect(result.rawResponse).toBe(JSON.stringify({ name: 'John', email: 'john@example.com' }));
+      expect((form.querySelector('[name="email"]') as HTMLInputElement).value).toBe('john@example.com');
+    });
+
+    it('falls back to JSON content for providers without tool support', async () => {
+      const provider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const chatSpy = vi.spyOn(provider, 'chat');
+      const form = createForm();
+      
+      const aiFormFill = new AIFormFill(provider, { extractionStrategy: 'tool-call' });
+      const result = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(chatSpy.mock.calls[0][0].tools).toBeUndefined();
+      expect(result.fields.find(field => field.field === 'name')?.status).toBe('filled');
+    });
+
+    it('keeps the json strategy by default', async () => {
+      const provider = new ToolCallingProvider();
+      const form = createForm();
+      
+      await new AIFormFill(provider).parseAndFillForm(form, 'John');
+      
+      expect(provider.lastRequest?.tools).toBeUndefined();
+    });
+  });
+
+  describe('response cache', () => {
+    it('serves repeated requests from the cache and reports the hit', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { cache: true });
+      const first = await aiFormFill.parseAndFillForm(form, 'John');
+      const second = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(first.cacheHit).toBe(false);
+      expect(second.cacheHit).toBe(true);
+      expect(second.fields[0].status).toBe('filled');
+      expect(chatSpy).toHaveBeenCalledOnce();
+    });
+
+    it('requests a fresh response with bypassCache', async () => {
+      const mockProvider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { cache: true });
+      await aiFormFill.parseAndFillForm(form, 'John');
+      mockProvider.setMockResponse(JSON.stringify({ name: 'Johnny' }));
+      const fresh = await aiFormFill.parseAndFillForm(form, 'John', { bypassCache: true });
+      const cached = await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(fresh.cacheHit).toBe(false);
+      expect(cached.rawResponse).toBe(JSON.stringify({ name: 'Johnny' }));
+      expect(chatSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('generates a new value for single fields on every call', async () => {
+      const mockProvider = new MockAIProvider('Generated');
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const input = document.createElement('input');
+      document.body.appendChild(input);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { cache: true, overwrite: 'always' });
+      await aiFormFill.fillSingleField(input);
+      await aiFormFill.fillSingleField(input);
+      
+      expect(chatSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not cache responses that could not be parsed', async () => {
+      const mockProvider = new MockAIProvider('not valid json');
+      const chatSpy = vi.spyOn(mockProvider, 'chat');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { cache: true });
+      await aiFormFill.parseAndFillForm(form, 'John');
+      await aiFormFill.parseAndFillForm(form, 'John');
+      
+      expect(chatSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('logging', () => {
+    it('sends diagnostics to the injected logger with provider, model and duration', async () => {
+      const entries: LogEntry[] = [];
+      const logger = createCallbackLogger(entry => entries.push(entry));
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      await new AIFormFill(new MockAIProvider(JSON.stringify({ name: 'John' })), { logger }).parseAndFillForm(form, 'John');
+      
+      const received = entries.find(entry => entry.message === 'Received response');
+      expect(received?.level).toBe('debug');
+      expect(received?.context).toMatchObject({ provider: 'mock', model: 'mock-model' });
+      expect(received?.context.duration).toBeTypeOf('number');
+    });
+
+    it('reports errors to the logger without writing to the console', async () => {
+      const entries: LogEntry[] = [];
+      const logger = createCallbackLogger(entry => entries.push(entry), { level: 'error' });
+      const consoleError = vi.spyOn(console, 'error');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      await new AIFormFill(new MockAIProvider('not valid json'), { logger }).parseAndFillForm(form, 'John');
+      
+      expect(entries.map(entry => entry.level)).toEqual(['error']);
+      expect(entries[0].context.error).toBeInstanceOf(JsonParseError);
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('error reporting', () => {
+    it('reports a JsonParseError in the result for malformed responses', async () => {
+      const mockProvider = new MockAIProvider('not valid json');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const result = await new AIFormFill(mockProvider).parseAndFillForm(form, 'John');
+      
+      expect(result.error).toBeInstanceOf(JsonParseError);
+      expect((result.error as JsonParseError).provider).toBe('mock');
+    });
+
+    it('rejects with the typed error when throwOnError is set', async () => {
+      const mockProvider = new MockAIProvider('');
+      const form = document.createElement('form');
+      form.innerHTML = `<input type="text" name="name">`;
+      document.body.appendChild(form);
+      
+      const aiFormFill = new AIFormFill(mockProvider, { throwOnError: true });
+      
+      await expect(aiFormFill.parseAndFillForm(form, 'John')).rejects.toBeInstanceOf(MalformedResponseError);
+    });
   });
 });
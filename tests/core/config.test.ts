@@ -0,0 +1,114 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { affConfig, BUILT_IN_CONFIG, resolveLogger, resolveProviderDefaults, resolveSetting } from '../../lib/core/config';
+import { createCallbackLogger, silentLogger, type LogEntry } from '../../lib/utils/logger';
+import { AIFormFill } from '../../lib/core/aiFormFill';
+import { LocalOllamaProvider } from '../../lib/providers/localOllama';
+import { OpenAIProvider } from '../../lib/providers/openai';
+import { MockAIProvider } from '../mockProvider';
+
+const originalOllama = { ...affConfig.ollama };
+const originalFormFillDebug = affConfig.formFillDebug;
+
+afterEach(() => {
+  affConfig.ollama = { ...originalOllama };
+  affConfig.formFillDebug = originalFormFillDebug;
+  affConfig.logger = undefined;
+  vi.restoreAllMocks();
+});
+
+describe('configuration layers', () => {
+  it('prefers instance values over global and built-in defaults', () => {
+    affConfig.ollama.model = 'mistral';
+    
+    expect(resolveProviderDefaults('ollama', { model: 'llama3' }).model).toBe('llama3');
+    expect(resolveProviderDefaults('ollama').model).toBe('mistral');
+    expect(new LocalOllamaProvider().getSelectedModel()).toBe('mistral');
+  });
+
+  it('falls back to built-in defaults for unset global values', () => {
+    affConfig.ollama = { apiEndpoint: '', model: undefined as unknown as string };
+    
+    expect(resolveProviderDefaults('ollama')).toEqual(BUILT_IN_CONFIG.ollama);
+    expect(resolveSetting('timeout')).toBe(affConfig.timeout);
+  });
+
+  it('does not share changes of the global object with the built-in defaults', () => {
+    affConfig.ollama.apiEndpoint = 'http://my-server:11434';
+    
+    expect(BUILT_IN_CONFIG.ollama.apiEndpoint).toBe('http://localhost:11434');
+  });
+
+  it('keeps logging silent by default', () => {
+    expect(BUILT_IN_CONFIG.providerDebug).toBe(false);
+    expect(BUILT_IN_CONFIG.formFillDebug).toBe(false);
+  });
+});
+
+describe('per-instance debug option', () => {
+  function createForm(): HTMLFormElement {
+    const form = document.createElement('form');
+    form.innerHTML = `<input type="text" name="name">`;
+    return form;
+  }
+
+  it('logs only for the instance that enables debug', async () => {
+    affConfig.formFillDebug = false;
+    const log = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    
+    await new AIFormFill(new MockAIProvider('{"name": "John"}')).parseAndFillForm(createForm(), 'John');
+    expect(log).not.toHaveBeenCalled();
+    
+    await new AIFormFill(new MockAIProvider('{"name": "John"}'), { debug: true }).parseAndFillForm(createForm(), 'John');
+    expect(log).toHaveBeenCalled();
+  });
+
+  it('lets an instance opt out of global debug logging', async () => {
+    affConfig.formFillDebug = true;
+    const log = vi.spyOn(console, 'debug').mockImplementation(() => {});
+    
+    await new AIFormFill(new MockAIProvider('{"name": "John"}'), { debug: false }).parseAndFillForm(createForm(), 'John');
+    
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it('only logs, and does not throw, when providers fail with debug enabled', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+    const provider = new OpenAIProvider({ debug: true, retry: { maxAttempts: 1 } });
+    
+    expect(await provider.listModels()).toEqual([]);
+    expect(await provider.isAvailable()).toBe(false);
+  });
+});
+
+describe('logger resolution', () => {
+  it('prefers the instance logger over the global logger and the debug setting', () => {
+    const instanceLogger = createCallbackLogger(() => {});
+    const globalLogger = createCallbackLogger(() => {});
+    affConfig.logger = globalLogger;
+
+    expect(resolveLogger(instanceLogger, false)).toBe(instanceLogger);
+    expect(resolveLogger(undefined, false)).toBe(globalLogger);
+  });
+
+  it('is silent unless debugging is enabled', () => {
+    expect(resolveLogger(undefined, false)).toBe(silentLogger);
+    expect(resolveLogger(undefined, true)).not.toBe(silentLogger);
+  });
+
+  it('passes the logger of AIFormFill to providers created by name', async () => {
+    const entries: LogEntry[] = [];
+    const logger = createCallbackLogger(entry => entries.push(entry));
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const aiForm = new AIFormFill('ollama', { logger });
+    await aiForm.getProvider().listModels();
+
+    expect(entries).toContainEqual(expect.objectContaining({
+      level: 'error',
+      message: 'Error listing models',
+      context: expect.objectContaining({ provider: 'ollama' }),
+    }));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AnthropicProvider } from '../../lib/providers/anthropic';
+import { AIFormFill } from '../../lib/core/aiFormFill';
+
+/**
+ * Stubs fetch with a Messages API response containing the given content blocks
+ */
+function stubMessagesFetch(content: unknown[], stopReason: string = 'end_turn') {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-haiku-4-5',
+    content,
+    stop_reason: stopReason,
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('AnthropicProvider', () => {
+  it('sends system messages as the system parameter and always sets max_tokens', async () => {
+    const fetchMock = stubMessagesFetch([{ type: 'text', text: 'Hello' }]);
+    const provider = new AnthropicProvider({ apiEndpoint: 'https://api.anthropic.test/v1', apiKey: 'sk-ant' });
+    
+    const response = await provider.chat({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      model: 'claude-haiku-4-5',
+    });
+    
+    const [url, init] = fetchMock.mock.calls[0];
+    const headers = init!.headers as Record<string, string>;
+    const body = JSON.parse(init!.body as string);
+    expect(url).toBe('https://api.anthropic.test/v1/messages');
+    expect(headers['x-api-key']).toBe('sk-ant');
+    expect(headers['anthropic-version']).toBe('2023-06-01');
+    expect(body.system).toBe('Be brief.');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(body.max_tokens).toBe(1024);
+    expect(body.tools).toBeUndefined();
+    expect(response).toEqual({ content: 'Hello', model: 'claude-haiku-4-5', finishReason: 'end_turn' });
+  });
+
+  it('forces tool use with the form schema and returns the tool input as JSON', async () => {
+    const fetchMock = stubMessagesFetch(
+      [{ type: 'tool_use', id: 'toolu_1', name: 'fill_form', input: { name: 'John' } }],
+      'tool_use',
+    );
+    const provider = new AnthropicProvider({ apiEndpoint: 'https://api.anthropic.test/v1' });
+    const format = { type: 'object', properties: { name: { type: 'string' } } };
+    
+    const response = await provider.chat({ messages: [], model: 'claude-haiku-4-5', maxTokens: 256, format });
+    
+    const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+    expect(body.max_tokens).toBe(256);
+    expect(body.tools[0].input_schema).toEqual(format);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'fill_form' });
+    expect(response.content).toBe('{"name":"John"}');
+  });
+
+  it('can be created by name and fills forms through tool use', async () => {
+    stubMessagesFetch([{ type: 'tool_use', id: 'toolu_1', name: 'fill_form', input: { email: 'john@example.com' } }]);
+    const form = document.createElement('form');
+    form.innerHTML = `<input type="email" name="email">`;
+    
+    const aiFormFill = new AIFormFill('anthropic', { apiEndpoint: 'https://api.anthropic.test/v1' });
+    await aiFormFill.parseAndFillForm(form, 'Reach me at john@example.com');
+    
+    expect(aiFormFill.getProvider()).toBeInstanceOf(AnthropicProvider);
+    expect(form.querySelector<HTMLInputElement>('[name="email"]')?.value).toBe('john@example.com');
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { FallbackProvider } from '../../lib/providers/fallback';
+import { ProviderAuthError, ProviderConnectionError, ProviderTimeoutError } from '../../lib/core/errors';
+import { LocalOllamaProvider } from '../../lib/providers/localOllama';
+import { MockAIProvider } from '../mockProvider';
+
+const request = { messages: [], model: 'ignored', format: { type: 'object' } };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('FallbackProvider', () => {
+  it('answers with the first available provider and records it', async () => {
+    const primary = new MockAIProvider('primary', { model: 'gemma3:4b' });
+    const secondary = new MockAIProvider('secondary');
+    vi.spyOn(primary, 'isAvailable').mockResolvedValue(false);
+    const secondaryChat = vi.spyOn(secondary, 'chat');
+    
+    const provider = new FallbackProvider([primary, secondary]);
+    const response = await provider.chat(request);
+    
+    expect(response.content).toBe('secondary');
+    expect(response.provider).toBe('mock');
+    expect(provider.getActiveProvider()).toBe(secondary);
+    expect(secondaryChat.mock.calls[0][0].model).toBe('mock-model');
+  });
+
+  it('fails over on timeout and connection errors', async () => {
+    const first = new MockAIProvider();
+    const second = new MockAIProvider();
+    const third = new MockAIProvider('third');
+    vi.spyOn(first, 'chat').mockRejectedValue(new ProviderTimeoutError(100));
+    vi.spyOn(second, 'chat').mockRejectedValue(new ProviderConnectionError());
+    
+    const response = await new FallbackProvider([first, second, third]).chat(request);
+    
+    expect(response.content).toBe('third');
+  });
+
+  it('does not fail over on other errors', async () => {
+    const primary = new MockAIProvider();
+    const secondary = new MockAIProvider('secondary');
+    vi.spyOn(primary, 'chat').mockRejectedValue(new ProviderAuthError(401, 'Unauthorized'));
+    
+    await expect(new FallbackProvider([primary, secondary]).chat(request)).rejects.toBeInstanceOf(ProviderAuthError);
+  });
+
+  it('caches availability and skips providers that failed within the window', async () => {
+    const primary = new MockAIProvider();
+    const secondary = new MockAIProvider('secondary');
+    const availability = vi.spyOn(primary, 'isAvailable');
+    const primaryChat = vi.spyOn(primary, 'chat').mockRejectedValue(new ProviderTimeoutError(100));
+    const provider = new FallbackProvider([primary, secondary], { availabilityTtl: 60000 });
+    
+    await provider.chat(request);
+    await provider.chat(request);
+    
+    expect(availability).toHaveBeenCalledOnce();
+    expect(primaryChat).toHaveBeenCalledOnce();
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    const primary = new MockAIProvider();
+    vi.spyOn(primary, 'chat').mockRejectedValue(new ProviderTimeoutError(100));
+    
+    await expect(new FallbackProvider([primary]).chat(request)).rejects.toBeInstanceOf(ProviderTimeoutError);
+  });
+
+  it('only sends the schema to providers with structured output support', async () => {
+    const primary = new MockAIProvider();
+    const chat = vi.spyOn(primary, 'chat');
+    
+    await new FallbackProvider([primary]).chat(request);
+    
+    expect(chat.mock.calls[0][0].format).toBeUndefined();
+  });
+
+  it('streams the full response of providers without streaming support', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of new FallbackProvider([new MockAIProvider('{"a": "b"}')]).chatStream(request)) {
+      chunks.push(chunk);
+    }
+    
+    expect(chunks).toEqual(['{"a": "b"}']);
+  });
+
+  it('forwards retries of its providers until disposed', async () => {
+    const fetchMock = vi.fn(async () => new Response('overloaded', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const shared = new LocalOllamaProvider({
+      apiEndpoint: 'http://ollama.test',
+      retry: { maxAttempts: 2, baseDelay: 0 },
+    });
+    const provider = new FallbackProvider([shared]);
+    const retries = vi.fn();
+    provider.addRetryListener(retries);
+    
+    await expect(shared.chat({ messages: [], model: 'gemma3:4b' })).rejects.toThrow(/503/);
+    provider.dispose();
+    await expect(shared.chat({ messages: [], model: 'gemma3:4b' })).rejects.toThrow(/503/);
+    
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    expect(retries).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GeminiProvider, toGeminiSchema } from '../../lib/providers/gemini';
+import { AIFormFill } from '../../lib/core/aiFormFill';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GeminiProvider', () => {
+  describe('chat', () => {
+    it('translates messages into contents and systemInstruction', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+        candidates: [{ content: { role: 'model', parts: [{ text: '{"name": ' }, { text: '"John"}' }] }, finishReason: 'STOP' }],
+        modelVersion: 'gemini-2.5-flash',
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new GeminiProvider({ apiEndpoint: 'https://gemini.test/v1beta', apiKey: 'key', temperature: 0 });
+      const format = { type: 'object', properties: { name: { type: 'string' } }, additionalProperties: false };
+      
+      const response = await provider.chat({
+        messages: [
+          { role: 'system', content: 'Extract data.' },
+          { role: 'user', content: 'John' },
+          { role: 'assistant', content: '{}' },
+        ],
+        model: 'gemini-2.5-flash',
+        maxTokens: 512,
+        format,
+      });
+      
+      const [url, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(init!.body as string);
+      expect(url).toBe('https://gemini.test/v1beta/models/gemini-2.5-flash:generateContent');
+      expect((init!.headers as Record<string, string>)['x-goog-api-key']).toBe('key');
+      expect(body.systemInstruction).toEqual({ parts: [{ text: 'Extract data.' }] });
+      expect(body.contents).toEqual([
+        { role: 'user', parts: [{ text: 'John' }] },
+        { role: 'model', parts: [{ text: '{}' }] },
+      ]);
+      expect(body.generationConfig).toEqual({
+        maxOutputTokens: 512,
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'object', properties: { name: { type: 'string' } } },
+      });
+      expect(response).toEqual({ content: '{"name": "John"}', model: 'gemini-2.5-flash', finishReason: 'STOP' });
+    });
+
+    it('can be created by name', () => {
+      expect(new AIFormFill('gemini').getProvider()).toBeInstanceOf(GeminiProvider);
+    });
+  });
+
+  describe('listModels', () => {
+    it('lists generateContent models without the models/ prefix', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+        models: [
+          { name: 'models/gemini-2.5-flash', supportedGenerationMethods: ['generateContent', 'countTokens'] },
+          { name: 'models/text-embedding-004', supportedGenerationMethods: ['embedContent'] },
+        ],
+      })));
+      const provider = new GeminiProvider({ apiEndpoint: 'https://gemini.test/v1beta' });
+      
+      expect(await provider.listModels()).toEqual(['gemini-2.5-flash']);
+      expect(await provider.isAvailable()).toBe(true);
+    });
+  });
+});
+
+describe('toGeminiSchema', () => {
+  it('strips unsupported keywords and string formats recursively', () => {
+    const schema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        website: { type: 'string', format: 'uri', description: 'Homepage' },
+        zip: { type: 'string', pattern: '^[0-9]{5}$' },
+        meeting: { type: 'string', format: 'date-time' },
+        tags: { type: 'array', items: { type: 'string', pattern: '.+' } },
+      },
+      required: ['zip'],
+    };
+    
+    expect(toGeminiSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        website: { type: 'string', description: 'Homepage' },
+        zip: { type: 'string' },
+        meeting: { type: 'string', format: 'date-time' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['zip'],
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { LocalOllamaProvider } from '../../lib/providers/localOllama';
+import { RateLimiter } from '../../lib/utils/rateLimiter';
+import {
+  FillCancelledError,
+  ProviderAuthError,
+  ProviderConnectionError,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+  MalformedResponseError,
+} from '../../lib/core/errors';
+
+/**
+ * Stubs fetch with a request that only settles when its signal aborts
+ */
+function stubHangingFetch() {
+  const fetchMock = vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      reject(Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' }));
+    });
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('LocalOllamaProvider', () => {
+  describe('chat cancellation', () => {
+    it('rejects with FillCancelledError when the caller aborts', async () => {
+      stubHangingFetch();
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', timeout: 10000 });
+      const controller = new AbortController();
+      
+      const request = provider.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: 'gemma3:4b',
+        signal: controller.signal,
+      });
+      controller.abort();
+      
+      await expect(request).rejects.toBeInstanceOf(FillCancelledError);
+    });
+
+    it('still reports timeouts as timeouts', async () => {
+      stubHangingFetch();
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', timeout: 10 });
+      
+      const request = provider.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: 'gemma3:4b',
+        signal: new AbortController().signal,
+      });
+      
+      await expect(request).rejects.toBeInstanceOf(ProviderTimeoutError);
+      await expect(request).rejects.toThrow(/timed out after 10ms/);
+    });
+  });
+
+  describe('chat errors', () => {
+    const request = {
+      messages: [{ role: 'user' as const, content: 'Hi' }],
+      model: 'gemma3:4b',
+    };
+
+    it('maps 401 responses to ProviderAuthError with context and body', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('bad key', { status: 401, statusText: 'Unauthorized' })));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', model: 'gemma3:4b' });
+      
+      const error = await provider.chat(request).catch(e => e);
+      
+      expect(error).toBeInstanceOf(ProviderAuthError);
+      expect(error).toMatchObject({
+        status: 401,
+        body: 'bad key',
+        provider: 'ollama',
+        model: 'gemma3:4b',
+        endpoint: 'http://ollama.test/api/chat',
+      });
+    });
+
+    it('maps 429 responses to ProviderRateLimitError with Retry-After', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('', {
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: { 'Retry-After': '3' },
+      })));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      const error = await provider.chat(request).catch(e => e);
+      
+      expect(error).toBeInstanceOf(ProviderRateLimitError);
+      expect(error.retryAfter).toBe(3000);
+    });
+
+    it('maps network failures to ProviderConnectionError', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('fetch failed'); }));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      await expect(provider.chat(request)).rejects.toBeInstanceOf(ProviderConnectionError);
+    });
+
+    it('keeps other errors mentioning fetch unchanged', async () => {
+      const hookError = new TypeError('Cannot read properties of undefined (reading \'fetch\')');
+      vi.stubGlobal('fetch', vi.fn(async () => { throw hookError; }));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      await expect(provider.chat(request)).rejects.toBe(hookError);
+    });
+
+    it('maps Node network error codes to ProviderConnectionError', async () => {
+      const cause = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:11434'), { code: 'ECONNREFUSED' });
+      vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('request failed', { cause }); }));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      await expect(provider.chat(request)).rejects.toBeInstanceOf(ProviderConnectionError);
+    });
+
+    it('maps unexpected bodies to MalformedResponseError', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({ unexpected: true })));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      await expect(provider.chat(request)).rejects.toBeInstanceOf(MalformedResponseError);
+    });
+  });
+
+  describe('chat request body', () => {
+    function stubOllamaFetch() {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+        model: 'gemma3:4b',
+        message: { role: 'assistant', content: '{}' },
+        done: true,
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    }
+
+    it('forwards the structured output format', async () => {
+      const fetchMock = stubOllamaFetch();
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      const format = { type: 'object', properties: { name: { type: 'string' } } };
+      
+      await provider.chat({ messages: [], model: 'gemma3:4b', format });
+      
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.format).toEqual(format);
+    });
+
+    it('merges generation options from the config and the request', async () => {
+      const fetchMock = stubOllamaFetch();
+      const provider = new LocalOllamaProvider({
+        apiEndpoint: 'http://ollama.test',
+        temperature: 0,
+        seed: 42,
+        numCtx: 8192,
+        keepAlive: '10m',
+      });
+      
+      await provider.chat({ messages: [], model: 'gemma3:4b', seed: 7, maxTokens: 256 });
+      
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.keep_alive).toBe('10m');
+      expect(body.options).toEqual({ num_predict: 256, temperature: 0, seed: 7, num_ctx: 8192 });
+    });
+  });
+
+  describe('tool calls', () => {
+    it('sends tools and serializes the tool call arguments', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+        model: 'llama3.1',
+        message: {
+          role: 'assistant',
+          content: '',
+          tool_calls: [{ function: { name: 'fill_form', arguments: { name: 'John' } } }],
+        },
+        done: true,
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      const parameters = { type: 'object', properties: { name: { type: 'string' } } };
+      
+      const response = await provider.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: 'llama3.1',
+        tools: [{ name: 'fill_form', description: 'Fill the form', parameters }],
+      });
+      
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.tools).toEqual([{ type: 'function', function: { name: 'fill_form', description: 'Fill the form', parameters } }]);
+      expect(response.toolCalls).toEqual([{ name: 'fill_form', arguments: '{"name":"John"}' }]);
+    });
+  });
+
+  describe('usage', () => {
+    it('maps prompt_eval_count and eval_count to usage', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+        model: 'gemma3:4b',
+        message: { role: 'assistant', content: '{}' },
+        done: true,
+        prompt_eval_count: 321,
+        eval_count: 12,
+      })));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      const response = await provider.chat({ messages: [], model: 'gemma3:4b' });
+      
+      expect(response.usage).toEqual({ inputTokens: 321, outputTokens: 12, totalTokens: 333 });
+    });
+  });
+
+  describe('chatStream', () => {
+    it('yields the content of each NDJSON line', async () => {
+      const lines = [
+        { message: { role: 'assistant', content: '{"name": ' }, done: false },
+        { message: { role: 'assistant', content: '"John"}' }, done: false },
+        { message: { role: 'assistant', content: '' }, done: true, prompt_eval_count: 25, eval_count: 8 },
+      ];
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          const text = lines.map(line => JSON.stringify(line)).join('\n');
+          // Split mid-line to exercise buffering
+          controller.enqueue(encoder.encode(text.slice(0, 30)));
+          controller.enqueue(encoder.encode(text.slice(30)));
+          controller.close();
+        },
+      });
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(body));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      const stream = provider.chatStream({ messages: [], model: 'gemma3:4b' });
+      const chunks: string[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        chunks.push(next.value);
+        next = await stream.next();
+      }
+      
+      expect(chunks).toEqual(['{"name": ', '"John"}']);
+      expect(next.value).toEqual({ inputTokens: 25, outputTokens: 8, totalTokens: 33 });
+      expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).stream).toBe(true);
+      expect(provider.supportsStreaming()).toBe(true);
+    });
+  });
+
+  describe('retry', () => {
+    it('retries transient failures and reports each retry', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(new Response('overloaded', { status: 503, statusText: 'Service Unavailable' }))
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(Response.json({
+          model: 'gemma3:4b',
+          message: { role: 'assistant', content: '{}' },
+          done: true,
+        }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalOllamaProvider({
+        apiEndpoint: 'http://ollama.test',
+        retry: { maxAttempts: 3, baseDelay: 0 },
+      });
+      const retries: string[] = [];
+      provider.addRetryListener(({ attempt, error }) => retries.push(`${attempt}: ${(error as Error).name}`));
+      
+      const response = await provider.chat({ messages: [], model: 'gemma3:4b' });
+      
+      expect(response.content).toBe('{}');
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(retries).toEqual(['1: ProviderHttpError', '2: ProviderConnectionError']);
+    });
+
+    it('does not retry without a retry policy', async () => {
+      const fetchMock = vi.fn(async () => new Response('', { status: 503 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test' });
+      
+      await expect(provider.chat({ messages: [], model: 'gemma3:4b' })).rejects.toThrow(/503/);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up after maxAttempts and retries listModels and isAvailable too', async () => {
+      const fetchMock = vi.fn(async () => new Response('', { status: 502 }));
+      vi.stubGlobal('fetch', fetchMock);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const provider = new LocalOllamaProvider({
+        apiEndpoint: 'http://ollama.test',
+        retry: { maxAttempts: 2, baseDelay: 0 },
+      });
+      
+      expect(await provider.listModels()).toEqual([]);
+      expect(await provider.isAvailable()).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('rate limit', () => {
+    const okResponse = () => Response.json({
+      model: 'gemma3:4b',
+      message: { role: 'assistant', content: '{}' },
+      done: true,
+    });
+
+    it('sends at most maxConcurrent requests at a time', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      vi.stubGlobal('fetch', vi.fn(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return okResponse();
+      }));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', rateLimit: { maxConcurrent: 2 } });
+      
+      await Promise.all(Array.from({ length: 5 }, () => provider.chat({ messages: [], model: 'gemma3:4b' })));
+      
+      expect(maxRunning).toBe(2);
+    });
+
+    it('pauses the limiter when a 429 response sets Retry-After', async () => {
+      vi.stubGlobal('fetch', vi.fn()
+        .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '3' } }))
+        .mockResolvedValue(okResponse()));
+      const limiter = new RateLimiter();
+      const pauseSpy = vi.spyOn(limiter, 'pause');
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', rateLimit: limiter });
+      
+      await expect(provider.chat({ messages: [], model: 'gemma3:4b' })).rejects.toBeInstanceOf(ProviderRateLimitError);
+      
+      expect(provider.getRateLimiter()).toBe(limiter);
+      expect(pauseSpy).toHaveBeenCalledWith(3000);
+    });
+
+    it('holds a slot while streaming', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response(
+        JSON.stringify({ message: { role: 'assistant', content: '{}' }, done: true }) + '\n',
+      )));
+      const provider = new LocalOllamaProvider({ apiEndpoint: 'http://ollama.test', rateLimit: { maxConcurrent: 1 } });
+      const stream = provider.chatStream({ messages: [], model: 'gemma3:4b' });
+      
+      await stream.next();
+      expect(provider.getRateLimiter()!.getActiveCount()).toBe(1);
+      await stream.return(undefined);
+      expect(provider.getRateLimiter()!.getActiveCount()).toBe(0);
+    });
+  });
+});
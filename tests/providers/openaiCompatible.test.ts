@@ -0,0 +1,157 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAICompatibleProvider } from '../../lib/providers/openaiCompatible';
+import { ProviderAuthError } from '../../lib/core/errors';
+
+/**
+ * Stubs fetch with a chat completions response
+ */
+function stubCompletionsFetch() {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'qwen2.5-7b-instruct',
+    choices: [{ index: 0, message: { role: 'assistant', content: '{"name": "John"}' }, finish_reason: 'stop' }],
+  }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleProvider', () => {
+  describe('chat', () => {
+    it('sends a chat completions request with mapped options', async () => {
+      const fetchMock = stubCompletionsFetch();
+      const provider = new OpenAICompatibleProvider({
+        apiEndpoint: 'http://localhost:1234/v1/',
+        apiKey: 'sk-test',
+        temperature: 0,
+      });
+      const format = { type: 'object', properties: { name: { type: 'string' } } };
+      
+      const response = await provider.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: 'qwen2.5-7b-instruct',
+        maxTokens: 128,
+        format,
+      });
+      
+      const [url, init] = fetchMock.mock.calls[0];
+      const body = JSON.parse(init!.body as string);
+      expect(url).toBe('http://localhost:1234/v1/chat/completions');
+      expect((init!.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-test');
+      expect(body.max_tokens).toBe(128);
+      expect(body.temperature).toBe(0);
+      expect(body.response_format).toEqual({ type: 'json_schema', json_schema: { name: 'form_values', schema: format } });
+      expect(body.maxTokens).toBeUndefined();
+      expect(response).toEqual({ content: '{"name": "John"}', model: 'qwen2.5-7b-instruct', finishReason: 'stop' });
+    });
+
+    it('sends tools and reads tool calls', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'fill_form', arguments: '{"name":"John"}' } }],
+          },
+          finish_reason: 'tool_calls',
+        }],
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new OpenAICompatibleProvider({ apiEndpoint: 'http://localhost:1234/v1' });
+      const parameters = { type: 'object', properties: { name: { type: 'string' } } };
+      
+      const response = await provider.chat({
+        messages: [{ role: 'user', content: 'Hi' }],
+        model: 'gpt-4o',
+        tools: [{ name: 'fill_form', parameters }],
+        toolChoice: { name: 'fill_form' },
+      });
+      
+      const body = JSON.parse(fetchMock.mock.calls[0][1]!.body as string);
+      expect(body.tools).toEqual([{ type: 'function', function: { name: 'fill_form', parameters } }]);
+      expect(body.tool_choice).toEqual({ type: 'function', function: { name: 'fill_form' } });
+      expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'fill_form', arguments: '{"name":"John"}' }]);
+      expect(provider.supportsToolCalls()).toBe(true);
+      expect(new OpenAICompatibleProvider({ toolCalls: false }).supportsToolCalls()).toBe(false);
+    });
+
+    it('supports Azure-style key headers and query parameters', async () => {
+      const fetchMock = stubCompletionsFetch();
+      const provider = new OpenAICompatibleProvider({
+        apiEndpoint: 'https://res.openai.azure.com/openai/deployments/gpt-4o',
+        apiKey: 'azure-key',
+        apiKeyHeader: 'api-key',
+        headers: { 'x-team': 'forms' },
+        queryParams: { 'api-version': '2024-10-21' },
+      });
+      
+      await provider.chat({ messages: [], model: 'gpt-4o' });
+      
+      const [url, init] = fetchMock.mock.calls[0];
+      const headers = init!.headers as Record<string, string>;
+      expect(url).toBe('https://res.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2024-10-21');
+      expect(headers['api-key']).toBe('azure-key');
+      expect(headers['Authorization']).toBeUndefined();
+      expect(headers['x-team']).toBe('forms');
+    });
+
+    it('maps 401 responses to ProviderAuthError', async () => {
+      vi.stubGlobal('fetch', vi.fn(async () => new Response('invalid key', { status: 401, statusText: 'Unauthorized' })));
+      const provider = new OpenAICompatibleProvider({ apiEndpoint: 'http://localhost:1234/v1', name: 'lmstudio' });
+      
+      await expect(provider.chat({ messages: [], model: 'm' })).rejects.toBeInstanceOf(ProviderAuthError);
+      await expect(provider.chat({ messages: [], model: 'm' })).rejects.toThrow(/lmstudio API error: 401/);
+    });
+  });
+
+  describe('chatStream', () => {
+    it('yields content deltas and returns the usage of the final chunk', async () => {
+      const events = [
+        { choices: [{ index: 0, delta: { content: '{"name": ' }, finish_reason: null }] },
+        { choices: [{ index: 0, delta: { content: '"John"}' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 40, completion_tokens: 6, total_tokens: 46 } },
+      ];
+      const sse = [...events.map(event => `data: ${JSON.stringify(event)}`), 'data: [DONE]'].join('\n\n');
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(sse));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new OpenAICompatibleProvider({ apiEndpoint: 'http://localhost:1234/v1' });
+      
+      const stream = provider.chatStream({ messages: [], model: 'qwen2.5-7b-instruct' });
+      const chunks: string[] = [];
+      let next = await stream.next();
+      while (!next.done) {
+        chunks.push(next.value);
+        next = await stream.next();
+      }
+      
+      expect(chunks).toEqual(['{"name": ', '"John"}']);
+      expect(next.value).toEqual({ inputTokens: 40, outputTokens: 6, totalTokens: 46 });
+      expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).stream_options).toEqual({ include_usage: true });
+    });
+  });
+
+  describe('listModels', () => {
+    it('reads model ids from /models', async () => {
+      const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => Response.json({
+        object: 'list',
+        data: [{ id: 'llama-3.1-8b' }, { id: 'qwen2.5-7b-instruct' }],
+      }));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new OpenAICompatibleProvider({ apiEndpoint: 'http://localhost:8000/v1' });
+      
+      expect(await provider.listModels()).toEqual(['llama-3.1-8b', 'qwen2.5-7b-instruct']);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/models');
+      expect(await provider.isAvailable()).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createProvider,
+  listProviders,
+  registerProvider,
+  unregisterProvider,
+} from '../../lib/providers/registry';
+import { AIFormFill } from '../../lib/core/aiFormFill';
+import { initializeAFFQuick } from '../../lib/core/initialize';
+import { AIFormFillError } from '../../lib/core/errors';
+import { affConfig, BUILT_IN_CONFIG } from '../../lib/core/config';
+import { LocalOllamaProvider } from '../../lib/providers/localOllama';
+import { OpenAIProvider } from '../../lib/providers/openai';
+import { OpenAICompatibleProvider } from '../../lib/providers/openaiCompatible';
+import { MockAIProvider } from '../mockProvider';
+import type { ProviderConfig } from '../../lib/providers/aiProvider';
+
+afterEach(() => {
+  unregisterProvider('in-house');
+  document.body.innerHTML = '';
+});
+
+describe('provider registry', () => {
+  it('registers the built-in providers', () => {
+    expect(listProviders().map(({ name }) => name)).toEqual(
+      expect.arrayContaining(['ollama', 'openai', 'perplexity', 'anthropic', 'gemini', 'openai-compatible']),
+    );
+  });
+
+  it('lists the built-in providers with their current defaults', () => {
+    const originalModel = affConfig.gemini.model;
+    affConfig.gemini.model = 'gemini-2.5-pro';
+    
+    const defaults = Object.fromEntries(listProviders().map(({ name, defaultConfig }) => [name, defaultConfig]));
+    affConfig.gemini.model = originalModel;
+    
+    expect(defaults.openai).toEqual(BUILT_IN_CONFIG.openai);
+    expect(defaults['openai-compatible']).toEqual(BUILT_IN_CONFIG.openaiCompatible);
+    expect(defaults.gemini).toEqual({ apiEndpoint: BUILT_IN_CONFIG.gemini.apiEndpoint, model: 'gemini-2.5-pro' });
+  });
+
+  it('creates the OpenAI-compatible provider by name', () => {
+    const provider = createProvider('openai-compatible', { apiEndpoint: 'http://localhost:1234/v1', model: 'qwen2.5' });
+    
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.getName()).toBe('openai-compatible');
+    expect(provider.getSelectedModel()).toBe('qwen2.5');
+    expect(new AIFormFill('openai-compatible').getProvider()).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it('looks up names case-insensitively', () => {
+    expect(createProvider('OpenAI')).toBeInstanceOf(OpenAIProvider);
+    expect(new AIFormFill(' Ollama ').getProvider()).toBeInstanceOf(LocalOllamaProvider);
+  });
+
+  it('merges set options over the default config', () => {
+    const factory = vi.fn((_config: ProviderConfig) => new MockAIProvider());
+    registerProvider('In-House', factory, { apiEndpoint: 'https://llm.internal.test', model: 'extractor-v2' });
+    
+    new AIFormFill('in-house', { model: 'extractor-v3' });
+    
+    expect(factory).toHaveBeenCalledWith(expect.objectContaining({
+      apiEndpoint: 'https://llm.internal.test',
+      model: 'extractor-v3',
+    }));
+    expect(listProviders().find(({ name }) => name === 'in-house')?.defaultConfig.model).toBe('extractor-v2');
+  });
+
+  it('throws for unknown and unregistered names', () => {
+    registerProvider('in-house', () => new MockAIProvider());
+    
+    expect(unregisterProvider('IN-HOUSE')).toBe(true);
+    expect(unregisterProvider('in-house')).toBe(false);
+    expect(() => createProvider('in-house')).toThrow(AIFormFillError);
+    expect(() => createProvider('in-house')).toThrow(/Registered providers: ollama/);
+  });
+
+  it('lets initializeAFFQuick select registered providers', async () => {
+    const provider = new MockAIProvider(JSON.stringify({ name: 'John' }));
+    const chatSpy = vi.spyOn(provider, 'chat');
+    registerProvider('in-house', () => provider);
+    document.body.innerHTML = `
+      <form id="aff-form" data-aff-provider="In-House"><input type="text" name="name"></form>
+      <textarea id="aff-text">John</textarea>
+      <button id="aff-text-button"></button>
+    `;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    
+    initializeAFFQuick();
+    document.getElementById('aff-text-button')!.click();
+    
+    await vi.waitFor(() => expect(chatSpy).toHaveBeenCalled());
+  });
+});
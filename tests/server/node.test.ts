@@ -0,0 +1,146 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { EventEmitter } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { createProxyHandler } from '../../lib/server/proxyHandler';
+import { toExpressMiddleware, toNodeListener, type NodeResponseLike } from '../../lib/server/node';
+
+const originalFetch = globalThis.fetch;
+let server: Server | undefined;
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = undefined;
+});
+
+/** Stubs the upstream API while requests to the local test server use the real fetch. */
+function mockUpstream() {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    if (String(input).startsWith('http://127.0.0.1')) return originalFetch(input, init);
+    return Response.json({ model: 'gpt-5-nano', choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] });
+  });
+}
+
+const handler = createProxyHandler({
+  basePath: '/api',
+  providers: { openai: { apiKey: 'sk-test', models: ['gpt-5-nano'] } },
+});
+
+describe('toNodeListener', () => {
+  it('serves the proxy handler from a Node http server', async () => {
+    const fetchMock = mockUpstream();
+    server = createServer(toNodeListener(handler));
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    
+    const response = await fetch(`http://127.0.0.1:${port}/api/openai/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'John' }] }),
+    });
+    
+    expect(response.status).toBe(200);
+    expect((await response.json()).choices[0].message.content).toBe('ok');
+    const upstreamCall = fetchMock.mock.calls.find(([url]) => String(url).startsWith('https://api.openai.com'));
+    expect(JSON.parse(upstreamCall?.[1]?.body as string).messages).toEqual([{ role: 'user', content: 'John' }]);
+  });
+});
+
+describe('toExpressMiddleware', () => {
+  function createResponse() {
+    const chunks: Uint8Array[] = [];
+    const events = new EventEmitter();
+    const response: NodeResponseLike & { headers: Record<string, string | string[]>; full: boolean; chunks: Uint8Array[]; emit(event: string): void; text(): string } = {
+      statusCode: 200,
+      headers: {},
+      writableEnded: false,
+      full: false,
+      chunks,
+      setHeader(name, value) { this.headers[name] = value; },
+      write(chunk) { chunks.push(chunk); return !this.full; },
+      end() { this.writableEnded = true; },
+      on(event, listener) { events.on(event, listener); },
+      once(event, listener) { events.once(event, listener); },
+      off(event, listener) { events.off(event, listener); },
+      emit(event) { events.emit(event); },
+      text: () => Buffer.concat(chunks).toString(),
+    };
+    return response;
+  }
+
+  it('forwards bodies parsed by express.json() relative to the mount path', async () => {
+    mockUpstream();
+    const middleware = toExpressMiddleware(createProxyHandler({
+      providers: { openai: { apiKey: 'sk-test', models: ['gpt-5-nano'] } },
+    }));
+    const request = Object.assign((async function* () {})(), {
+      method: 'POST',
+      url: '/openai/chat',
+      headers: { 'content-type': 'application/json', 'content-length': '999', host: 'example.com' },
+      body: { messages: [{ role: 'user', content: 'John' }] },
+      readableEnded: true,
+    });
+    const response = createResponse();
+    const next = vi.fn();
+    
+    middleware(request, response, next);
+    await vi.waitFor(() => expect(response.writableEnded).toBe(true));
+    
+    expect(response.statusCode).toBe(200);
+    expect(JSON.parse(response.text()).choices[0].message.content).toBe('ok');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('reads the stream when body-parsing middleware skipped the request', async () => {
+    const middleware = toExpressMiddleware(async request => new Response(await request.text()));
+    const request = Object.assign((async function* () { yield '{"messages":[]}'; })(), {
+      method: 'POST',
+      url: '/openai/chat',
+      headers: { 'content-type': 'text/plain' },
+      body: {},
+      readableEnded: false,
+    });
+    const response = createResponse();
+    
+    middleware(request, response, vi.fn());
+    await vi.waitFor(() => expect(response.writableEnded).toBe(true));
+    
+    expect(response.text()).toBe('{"messages":[]}');
+  });
+
+  it('waits for the response to drain before writing more', async () => {
+    const middleware = toExpressMiddleware(async () => new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('a'));
+        controller.enqueue(new TextEncoder().encode('b'));
+        controller.close();
+      },
+    })));
+    const request = Object.assign((async function* () {})(), { method: 'GET', url: '/openai/models', headers: {} });
+    const response = createResponse();
+    response.full = true;
+    
+    middleware(request, response, vi.fn());
+    await vi.waitFor(() => expect(response.chunks).toHaveLength(1));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    
+    expect(response.chunks).toHaveLength(1);
+    response.full = false;
+    response.emit('drain');
+    await vi.waitFor(() => expect(response.writableEnded).toBe(true));
+    expect(response.text()).toBe('ab');
+  });
+
+  it('passes handler errors to next', async () => {
+    const error = new Error('boom');
+    const middleware = toExpressMiddleware(async () => { throw error; });
+    const request = Object.assign((async function* () {})(), { method: 'GET', url: '/openai/models', headers: {} });
+    const next = vi.fn();
+    
+    middleware(request, createResponse(), next);
+    
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith(error));
+  });
+});
@@ -0,0 +1,173 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createProxyHandler, type ProxyHandlerOptions } from '../../lib/server/proxyHandler';
+import { OpenAIProvider } from '../../lib/providers/openai';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+function completion(content: string) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model: 'gpt-5-nano',
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+  };
+}
+
+/** Stubs the upstream API and returns the mock to inspect the forwarded requests. */
+function mockUpstream(response: () => Response = () => Response.json(completion('{"name":"John"}'))) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => response());
+}
+
+function createHandler(options: Partial<ProxyHandlerOptions> = {}) {
+  return createProxyHandler({
+    basePath: '/api',
+    providers: { openai: { apiKey: 'sk-test', models: ['gpt-5-nano', 'gpt-4o-mini'] } },
+    ...options,
+  });
+}
+
+function chatRequest(body: unknown, init: RequestInit = {}) {
+  return new Request('http://localhost/api/openai/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    ...init,
+  });
+}
+
+const messages = [{ role: 'user', content: 'John' }];
+
+describe('createProxyHandler', () => {
+  it('forwards chat requests with the server key, the token cap and the schema', async () => {
+    const fetchMock = mockUpstream();
+    const handler = createHandler({ maxTokens: 500 });
+    
+    const response = await handler(chatRequest({ model: 'gpt-4o-mini', messages, maxTokens: 4000, format: { type: 'object' } }));
+    
+    expect(response.status).toBe(200);
+    expect((await response.json()).choices[0].message.content).toBe('{"name":"John"}');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect((init?.headers as Record<string, string>)['Authorization']).toBe('Bearer sk-test');
+    const body = JSON.parse(init?.body as string);
+    expect(body).toMatchObject({
+      model: 'gpt-4o-mini',
+      max_completion_tokens: 500,
+      response_format: { type: 'json_schema', json_schema: { schema: { type: 'object' } } },
+    });
+  });
+
+  it('uses the first allowed model and rejects models outside the allowlist', async () => {
+    const fetchMock = mockUpstream();
+    const handler = createHandler();
+    
+    await handler(chatRequest({ messages }));
+    const rejected = await handler(chatRequest({ model: 'gpt-4o', messages }));
+    
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).model).toBe('gpt-5-nano');
+    expect(rejected.status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it('rejects oversized and invalid bodies before calling the upstream API', async () => {
+    const fetchMock = mockUpstream();
+    const handler = createHandler({ maxBodySize: 200 });
+    
+    const oversized = await handler(chatRequest({ messages: [{ role: 'user', content: 'x'.repeat(300) }] }));
+    const invalid = await handler(chatRequest({ messages: [{ role: 'tool', content: 'x' }] }));
+    const notJson = await handler(chatRequest(undefined, { body: '{' }));
+    
+    expect(oversized.status).toBe(413);
+    expect(invalid.status).toBe(400);
+    expect(notJson.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('answers models from the allowlist and availability from the key', async () => {
+    mockUpstream();
+    const handler = createHandler({
+      providers: {
+        openai: { apiKey: 'sk-test', models: ['gpt-5-nano'] },
+        perplexity: { apiKey: () => undefined },
+      },
+    });
+    
+    const models = await handler(new Request('http://localhost/api/openai/models', { method: 'POST' }));
+    const available = await handler(new Request('http://localhost/api/openai/available', { method: 'POST' }));
+    const unavailable = await handler(new Request('http://localhost/api/perplexity/available', { method: 'POST' }));
+    
+    expect(await models.json()).toEqual({ models: ['gpt-5-nano'] });
+    expect(available.status).toBe(200);
+    expect(unavailable.status).toBe(503);
+  });
+
+  it('hides upstream authentication failures and forwards rate limits', async () => {
+    const handler = createHandler();
+    
+    mockUpstream(() => new Response('{"error":{"message":"Incorrect API key provided: sk-t***"}}', { status: 401 }));
+    const unauthorized = await handler(chatRequest({ messages }));
+    mockUpstream(() => new Response('{}', { status: 429, headers: { 'Retry-After': '3' } }));
+    const limited = await handler(chatRequest({ messages }));
+    
+    expect(unauthorized.status).toBe(502);
+    expect(await unauthorized.text()).not.toContain('sk-t');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBe('3');
+  });
+
+  it('times out while waiting for headers but not while the body streams', async () => {
+    const handler = createHandler({ timeout: 20 });
+
+    vi.spyOn(globalThis, 'fetch').mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+    const timedOut = await handler(chatRequest({ messages }));
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => new Response(new ReadableStream({
+      async start(controller) {
+        init?.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')));
+        await new Promise(resolve => setTimeout(resolve, 50));
+        if (init?.signal?.aborted) return;
+        controller.enqueue(new TextEncoder().encode(JSON.stringify(completion('{"name":"John"}'))));
+        controller.close();
+      },
+    })));
+    const slowBody = await handler(chatRequest({ messages }));
+
+    expect(timedOut.status).toBe(504);
+    expect(slowBody.status).toBe(200);
+    expect((await slowBody.json()).choices[0].message.content).toBe('{"name":"John"}');
+  });
+
+  it('rejects unknown routes and methods', async () => {
+    const handler = createHandler();
+    
+    const unknownProvider = await handler(new Request('http://localhost/api/gemini/chat', { method: 'POST' }));
+    const outsideBasePath = await handler(new Request('http://localhost/openai/chat', { method: 'POST' }));
+    const wrongMethod = await handler(new Request('http://localhost/api/openai/chat'));
+    
+    expect(unknownProvider.status).toBe(404);
+    expect(outsideBasePath.status).toBe(404);
+    expect(wrongMethod.status).toBe(405);
+    expect(wrongMethod.headers.get('Allow')).toBe('POST');
+  });
+
+  it('serves the OpenAIProvider contract', async () => {
+    const handler = createHandler();
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+      const url = String(input);
+      if (url.startsWith('http://proxy.test/')) return handler(new Request(url, init));
+      return Response.json(completion('{"name":"John"}'));
+    });
+    const provider = new OpenAIProvider({ apiEndpoint: 'http://proxy.test/api' });
+    
+    const response = await provider.chat({ model: 'gpt-5-nano', messages: [{ role: 'user', content: 'John' }] });
+    
+    expect(response.content).toBe('{"name":"John"}');
+    expect(await provider.isAvailable()).toBe(true);
+    expect(await provider.listModels()).toEqual(['gpt-5-nano', 'gpt-4o-mini']);
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { JSDOM } from 'jsdom';
-import { analyzeField, getFillTargets, setFieldValue, getFieldIdentifier } from '../../lib/utils/fieldUtils';
+import {
+  analyzeField,
+  getFillTargets,
+  setFieldValue,
+  getFieldIdentifier,
+  captureFieldState,
+  restoreFieldState,
+  isFieldEmpty,
+} from '../../lib/utils/fieldUtils';
 
 // Setup jsdom for each test
 let document: Document;
@@ -61,6 +69,18 @@ describe('analyzeField', () => {
     expect(result.name).toBe('country');
   });
 
+  it('lists select options without the placeholder', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="">Choose...</option>
+      <option value="de">Germany</option>
+    `;
+    
+    const result = analyzeField(select);
+    
+    expect(result.options).toEqual([{ value: 'de', label: 'Germany' }]);
+  });
+
   it('finds label by for attribute', () => {
     const label = document.createElement('label');
     label.setAttribute('for', 'nameInput');
@@ -139,6 +159,47 @@ describe('getFillTargets', () => {
     expect(targets[0].type).toBe('radio');
     expect(targets[0].options).toHaveLength(3);
   });
+
+  it('groups checkboxes sharing a name into one multi-value field', () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <input type="text" name="name">
+      <label><input type="checkbox" name="interests[]" value="sports"> Sports</label>
+      <label><input type="checkbox" name="interests[]" value="music"> Music</label>
+      <input type="checkbox" name="newsletter">
+    `;
+    document.body.appendChild(form);
+    
+    const targets = getFillTargets(form);
+    
+    expect(targets.map(target => target.name)).toEqual(['name', 'interests[]', 'newsletter']);
+    expect(targets[1].multiple).toBe(true);
+    expect(targets[1].options).toEqual([
+      { value: 'sports', label: 'Sports' },
+      { value: 'music', label: 'Music' },
+    ]);
+    expect(targets[2].multiple).toBeUndefined();
+  });
+
+  it('detects multi-selects with their options', () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <select name="languages" multiple>
+        <option value="">Choose...</option>
+        <option value="de">German</option>
+        <option value="en">English</option>
+      </select>
+    `;
+    document.body.appendChild(form);
+    
+    const [target] = getFillTargets(form);
+    
+    expect(target.multiple).toBe(true);
+    expect(target.options).toEqual([
+      { value: 'de', label: 'German' },
+      { value: 'en', label: 'English' },
+    ]);
+  });
 });
 
 describe('setFieldValue', () => {
@@ -202,6 +263,85 @@ describe('setFieldValue', () => {
     expect(select.value).toBe('us');
   });
 
+  it('matches options ignoring accents and whitespace', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="at">Österreich</option>
+      <option value="ci">Côte d'Ivoire</option>
+    `;
+    
+    setFieldValue(select, '  cote   d\'ivoire ');
+    
+    expect(select.value).toBe('ci');
+  });
+
+  it('prefers option values over labels', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="small">Large</option>
+      <option value="large">Extra large</option>
+    `;
+    
+    setFieldValue(select, 'large');
+    
+    expect(select.value).toBe('large');
+  });
+
+  it('rejects partial matches by default', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="">Choose...</option>
+      <option value="us">United States</option>
+    `;
+    
+    const result = setFieldValue(select, 'United');
+    
+    expect(result.applied).toBe(false);
+    expect(select.value).toBe('');
+  });
+
+  it('falls back to the best-scoring option in fuzzy mode', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="uk">United Kingdom</option>
+      <option value="us">United States</option>
+    `;
+    
+    const result = setFieldValue(select, 'Unitd States', { mode: 'fuzzy' });
+    
+    expect(result.applied).toBe(true);
+    expect(result.value).toBe('us');
+    expect(result.match?.score).toBeGreaterThanOrEqual(0.8);
+    expect(result.match?.runnerUp?.value).toBe('uk');
+  });
+
+  it('names the tied candidates when a fuzzy match is ambiguous', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="east">East Germany</option>
+      <option value="west">West Germany</option>
+    `;
+    
+    const result = setFieldValue(select, 'Germany', { mode: 'fuzzy', minScore: 0.5 });
+    
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain('"East Germany" and "West Germany"');
+  });
+
+  it('does not match radios without a label to every value', () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <input type="radio" name="plan" value="">
+      <label><input type="radio" name="plan" value="pro"> Pro</label>
+    `;
+    const radios = form.querySelectorAll('input');
+    
+    const result = setFieldValue(radios[0], 'Enterprise', { mode: 'fuzzy' });
+    
+    expect(result.applied).toBe(false);
+    expect(radios[0].checked).toBe(false);
+  });
+
   it('ignores empty values', () => {
     const input = document.createElement('input');
     input.value = 'original';
@@ -219,6 +359,165 @@ describe('setFieldValue', () => {
     
     expect(input.value).toBe('original');
   });
+
+  it('reports the normalized value that was written', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="de">Germany</option>
+      <option value="us">United States</option>
+    `;
+    
+    const result = setFieldValue(select, 'United States');
+    
+    expect(result).toEqual({ applied: true, value: 'us', match: { score: 1 } });
+  });
+
+  it('reports a reason when the value cannot be written', () => {
+    const input = document.createElement('input');
+    input.type = 'date';
+    
+    const result = setFieldValue(input, 'someday');
+    
+    expect(result.applied).toBe(false);
+    expect(result.reason).toContain('someday');
+    expect(input.value).toBe('');
+  });
+});
+
+describe('setFieldValue (multi-value fields)', () => {
+  function createCheckboxGroup(): HTMLInputElement[] {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <label><input type="checkbox" name="interests[]" value="sports"> Sports</label>
+      <label><input type="checkbox" name="interests[]" value="music" checked> Music</label>
+      <label><input type="checkbox" name="interests[]" value="travel"> Travel</label>
+    `;
+    document.body.appendChild(form);
+    return Array.from(form.querySelectorAll('input'));
+  }
+
+  it('selects every matching option of a multi-select and deselects the others', () => {
+    const select = document.createElement('select');
+    select.multiple = true;
+    select.innerHTML = `
+      <option value="de" selected>German</option>
+      <option value="en">English</option>
+      <option value="fr">French</option>
+    `;
+    
+    const result = setFieldValue(select, ['English', 'fr']);
+    
+    expect(Array.from(select.selectedOptions).map(option => option.value)).toEqual(['en', 'fr']);
+    expect(result).toEqual({ applied: true, value: '["en","fr"]' });
+  });
+
+  it('checks every matching checkbox of a group from a JSON array string', () => {
+    const checkboxes = createCheckboxGroup();
+    
+    const result = setFieldValue(checkboxes[0], '["sports", "Travel", "cooking"]');
+    
+    expect(checkboxes.map(checkbox => checkbox.checked)).toEqual([true, false, true]);
+    expect(result).toEqual({ applied: true, value: '["sports","travel"]' });
+  });
+
+  it('accepts comma-separated values', () => {
+    const checkboxes = createCheckboxGroup();
+    
+    setFieldValue(checkboxes[0], 'music, travel');
+    
+    expect(checkboxes.map(checkbox => checkbox.checked)).toEqual([false, true, true]);
+  });
+
+  it('leaves the group unchanged if no value matches', () => {
+    const checkboxes = createCheckboxGroup();
+    
+    const result = setFieldValue(checkboxes[0], ['cooking']);
+    
+    expect(result.applied).toBe(false);
+    expect(checkboxes.map(checkbox => checkbox.checked)).toEqual([false, true, false]);
+  });
+
+  it('captures and restores the whole checkbox group', () => {
+    const checkboxes = createCheckboxGroup();
+    const snapshot = captureFieldState(checkboxes[0]);
+    
+    setFieldValue(checkboxes[0], ['sports']);
+    restoreFieldState(snapshot);
+    
+    expect(checkboxes.map(checkbox => checkbox.checked)).toEqual([false, true, false]);
+    expect(isFieldEmpty(checkboxes[0])).toBe(false);
+  });
+});
+
+describe('captureFieldState / restoreFieldState', () => {
+  it('captures the whole radio group', () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <label><input type="radio" name="size" value="s" checked> Small</label>
+      <label><input type="radio" name="size" value="m"> Medium</label>
+    `;
+    document.body.appendChild(form);
+    const [small, medium] = Array.from(form.querySelectorAll<HTMLInputElement>('input'));
+    
+    const snapshot = captureFieldState(medium);
+    setFieldValue(medium, 'Medium');
+    expect(medium.checked).toBe(true);
+    
+    restoreFieldState(snapshot);
+    
+    expect(snapshot).toHaveLength(2);
+    expect(small.checked).toBe(true);
+    expect(medium.checked).toBe(false);
+  });
+
+  it('only dispatches events for elements that changed', () => {
+    const input = document.createElement('input');
+    input.value = 'same';
+    let events = 0;
+    input.addEventListener('input', () => events++);
+    
+    restoreFieldState(captureFieldState(input));
+    
+    expect(events).toBe(0);
+  });
+});
+
+describe('isFieldEmpty', () => {
+  it('treats a select on its placeholder option as empty', () => {
+    const select = document.createElement('select');
+    select.innerHTML = `
+      <option value="">Select...</option>
+      <option value="de">Germany</option>
+    `;
+    
+    expect(isFieldEmpty(select)).toBe(true);
+    select.value = 'de';
+    expect(isFieldEmpty(select)).toBe(false);
+  });
+
+  it('treats a radio group as empty when no option is checked', () => {
+    const form = document.createElement('form');
+    form.innerHTML = `
+      <input type="radio" name="size" value="s">
+      <input type="radio" name="size" value="m">
+    `;
+    document.body.appendChild(form);
+    const [small, medium] = Array.from(form.querySelectorAll<HTMLInputElement>('input'));
+    
+    expect(isFieldEmpty(small)).toBe(true);
+    medium.checked = true;
+    expect(isFieldEmpty(small)).toBe(false);
+  });
+
+  it('treats unchecked checkboxes and blank text as empty', () => {
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    const input = document.createElement('input');
+    input.value = '   ';
+    
+    expect(isFieldEmpty(checkbox)).toBe(true);
+    expect(isFieldEmpty(input)).toBe(true);
+  });
 });
 
 describe('getFieldIdentifier', () => {
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { parseJsonResponse, isValidJson } from '../../lib/utils/jsonParser';
+import { parseJsonResponse, parseFormResponse, isValidJson, IncrementalJsonParser } from '../../lib/utils/jsonParser';
+import { JsonParseError, SchemaMismatchError } from '../../lib/core/errors';
 
 describe('parseJsonResponse', () => {
   it('parses valid JSON object', () => {
@@ -51,6 +52,105 @@ describe('parseJsonResponse', () => {
   });
 });
 
+describe('parseJsonResponse (strict)', () => {
+  it('throws JsonParseError with the raw response for malformed JSON', () => {
+    const parse = () => parseJsonResponse('{ invalid json }', {
+      strict: true,
+      errorContext: { provider: 'ollama', model: 'gemma3:4b' },
+    });
+    
+    expect(parse).toThrow(JsonParseError);
+    try {
+      parse();
+    } catch (error) {
+      expect((error as JsonParseError).response).toBe('{ invalid json }');
+      expect((error as JsonParseError).provider).toBe('ollama');
+      expect((error as JsonParseError).model).toBe('gemma3:4b');
+    }
+  });
+
+  it('throws SchemaMismatchError for non-object JSON', () => {
+    expect(() => parseJsonResponse('["a", "b"]', { strict: true })).toThrow(SchemaMismatchError);
+  });
+
+  it('validates values against the schema property types', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        age: { type: 'number' },
+        newsletter: { type: 'boolean' },
+        name: { type: 'string' },
+      },
+    };
+    
+    expect(parseJsonResponse('{"age": "42", "newsletter": "true", "name": "Jo"}', { strict: true, schema }))
+      .toEqual({ age: '42', newsletter: 'true', name: 'Jo' });
+    expect(() => parseJsonResponse('{"age": "old", "name": {"first": "Jo"}}', { strict: true, schema }))
+      .toThrow(/"age" should be a number; "name" should be a string/);
+  });
+
+  it('accepts every value the field writers accept', () => {
+    const schema = {
+      type: 'object',
+      properties: { age: { type: 'number' }, newsletter: { type: 'boolean' } },
+    };
+    
+    expect(parseJsonResponse('{"age": "unknown", "newsletter": "yes"}', { strict: true, schema }))
+      .toEqual({ age: 'unknown', newsletter: 'yes' });
+  });
+
+  it('keeps array values as JSON array strings', () => {
+    const schema = { type: 'object', properties: { interests: { type: 'array' } } };
+    
+    expect(parseJsonResponse('{"interests": ["sports", "music"]}', { strict: true, schema }))
+      .toEqual({ interests: '["sports","music"]' });
+    expect(() => parseJsonResponse('{"interests": {"sports": true}}', { strict: true, schema }))
+      .toThrow(/"interests" should be an array/);
+  });
+});
+
+describe('parseFormResponse', () => {
+  it('reports schema mismatches per field instead of throwing', () => {
+    const schema = { type: 'object', properties: { age: { type: 'number' }, name: { type: 'string' } } };
+    
+    expect(parseFormResponse('{"age": "old", "name": "Jo"}', { schema })).toEqual({
+      values: { age: 'old', name: 'Jo' },
+      mismatches: { age: '"age" should be a number' },
+    });
+  });
+
+  it('throws JsonParseError for malformed JSON', () => {
+    expect(() => parseFormResponse('{ invalid json }')).toThrow(JsonParseError);
+  });
+});
+
+describe('IncrementalJsonParser', () => {
+  it('emits each key once its value is complete', () => {
+    const parser = new IncrementalJsonParser();
+    
+    expect(parser.push('```json\n{"firstName": "Jo')).toEqual([]);
+    expect(parser.push('hn", "age": 4')).toEqual([['firstName', 'John']]);
+    expect(parser.push('2, "newsletter": true}\n```')).toEqual([['age', '42'], ['newsletter', 'true']]);
+    expect(parser.isComplete()).toBe(true);
+    expect(parser.getResult()).toEqual({ firstName: 'John', age: '42', newsletter: 'true' });
+  });
+
+  it('ignores commas and braces inside strings', () => {
+    const parser = new IncrementalJsonParser();
+    
+    expect(parser.push('{"address": "Main St, {Apt} \\"3\\""')).toEqual([]);
+    expect(parser.push('}')).toEqual([['address', 'Main St, {Apt} "3"']]);
+  });
+
+  it('reports completed values that do not match the schema', () => {
+    const parser = new IncrementalJsonParser({ type: 'object', properties: { name: { type: 'string' }, age: { type: 'number' } } });
+    
+    parser.push('{"name": "John", "age": "old", ');
+    
+    expect(parser.getMismatches()).toEqual({ age: '"age" should be a number' });
+  });
+});
+
 describe('isValidJson', () => {
   it('returns true for valid JSON object', () => {
     expect(isValidJson('{"key": "value"}')).toBe(true);
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createCallbackLogger, createConsoleLogger, silentLogger, type LogEntry } from '../../lib/utils/logger';
+
+describe('createCallbackLogger', () => {
+  it('passes level, message, context and timestamp to the handler', () => {
+    const entries: LogEntry[] = [];
+    const logger = createCallbackLogger(entry => entries.push(entry));
+    
+    logger.info('Received response', { provider: 'openai', duration: 42 });
+    logger.debug('Without context');
+    
+    expect(entries[0]).toMatchObject({
+      level: 'info',
+      message: 'Received response',
+      context: { provider: 'openai', duration: 42 },
+    });
+    expect(entries[0].timestamp).toBeTypeOf('number');
+    expect(entries[1].context).toEqual({});
+  });
+
+  it('drops messages below the minimum level', () => {
+    const handler = vi.fn();
+    const logger = createCallbackLogger(handler, { level: 'warn' });
+    
+    logger.debug('debug');
+    logger.info('info');
+    logger.warn('warn');
+    logger.error('error');
+    
+    expect(handler.mock.calls.map(([entry]) => entry.level)).toEqual(['warn', 'error']);
+  });
+});
+
+describe('createConsoleLogger', () => {
+  it('writes prefixed messages to the method of their level', () => {
+    const target = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    const logger = createConsoleLogger({ target, prefix: '[test]' });
+    const error = new Error('boom');
+    
+    logger.warn('Retrying');
+    logger.error('Request failed', { error });
+    
+    expect(target.warn).toHaveBeenCalledWith('[test] Retrying');
+    expect(target.error).toHaveBeenCalledWith('[test] Request failed', { error });
+  });
+});
+
+describe('silentLogger', () => {
+  it('does not write to the console', () => {
+    const consoleError = vi.spyOn(console, 'error');
+    
+    silentLogger.error('Request failed');
+    
+    expect(consoleError).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { matchOption, scoreOption, rankOptions, normalizeOptionText } from '../../lib/utils/optionMatcher';
+
+const countries = [
+  { value: '1', label: 'Germany' },
+  { value: '2', label: 'United States' },
+  { value: '3', label: 'United Kingdom' },
+];
+
+describe('normalizeOptionText', () => {
+  it('folds case, accents and whitespace', () => {
+    expect(normalizeOptionText('  Côte   d’Ivoire ')).toBe('cote d’ivoire');
+    expect(normalizeOptionText('ÖSTERREICH')).toBe('osterreich');
+  });
+});
+
+describe('scoreOption', () => {
+  it('scores equal text as 1', () => {
+    expect(scoreOption({ value: 'de', label: 'Germany' }, 'germany')).toBe(1);
+  });
+
+  it('tolerates typos', () => {
+    expect(scoreOption({ value: 'de', label: 'Germany' }, 'Germny')).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('scores a word contained in a longer label below the default minimum', () => {
+    expect(scoreOption({ value: 'ddr', label: 'East Germany' }, 'Germany')).toBeLessThan(0.8);
+  });
+
+  it('recognizes acronyms and prefix abbreviations', () => {
+    expect(scoreOption({ value: 'x', label: 'European Union' }, 'EU')).toBeGreaterThanOrEqual(0.8);
+    expect(scoreOption({ value: 'x', label: 'Sales Department' }, 'Sales Dept')).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('recognizes built-in and custom synonyms', () => {
+    expect(scoreOption({ value: 'x', label: 'United States' }, 'America')).toBeGreaterThanOrEqual(0.8);
+    expect(scoreOption({ value: 'x', label: 'Germany' }, 'Deutschland', { germany: ['deutschland'] })).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('never matches options with an empty value and label', () => {
+    expect(scoreOption({ value: '', label: '' }, 'anything')).toBe(0);
+  });
+});
+
+describe('rankOptions', () => {
+  it('orders options by score and leaves out unrelated ones', () => {
+    const ranked = rankOptions(countries, 'United Stats');
+
+    expect(ranked[0].option.label).toBe('United States');
+    expect(ranked[1].option.label).toBe('United Kingdom');
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+    expect(ranked.map(scored => scored.option.label)).not.toContain('Germany');
+  });
+});
+
+describe('matchOption', () => {
+  it('matches by value or normalized label in exact mode', () => {
+    expect(matchOption(countries, '2').option?.label).toBe('United States');
+    expect(matchOption(countries, ' united  states ')).toMatchObject({ option: countries[1], score: 1 });
+  });
+
+  it('rejects close matches in exact mode', () => {
+    expect(matchOption(countries, 'United Stats')).toEqual({ score: 0 });
+  });
+
+  it('matches abbreviations in fuzzy mode and reports the runner-up', () => {
+    const match = matchOption(countries, 'US', { mode: 'fuzzy' });
+
+    expect(match.option?.label).toBe('United States');
+    expect(match.score).toBeGreaterThanOrEqual(0.8);
+    expect(match.runnerUp?.option.label).not.toBe('United States');
+  });
+
+  it('prefers exact matches over fuzzy ones', () => {
+    const options = [{ value: 'ddr', label: 'East Germany' }, { value: 'de', label: 'Germany' }];
+
+    const match = matchOption(options, 'Germany', { mode: 'fuzzy' });
+
+    expect(match.option?.value).toBe('de');
+    expect(match.score).toBe(1);
+    expect(match.runnerUp?.option.value).toBe('ddr');
+  });
+
+  it('rejects ties between the best two options', () => {
+    const options = [{ value: 'east', label: 'East Germany' }, { value: 'west', label: 'West Germany' }];
+
+    const match = matchOption(options, 'Germany', { mode: 'fuzzy', minScore: 0.5 });
+
+    expect(match.option).toBeUndefined();
+    expect(match.candidate?.score).toBe(match.runnerUp?.score);
+  });
+
+  it('applies the minimum score', () => {
+    expect(matchOption(countries, 'Germny', { mode: 'fuzzy' }).option?.value).toBe('1');
+    expect(matchOption(countries, 'Germny', { mode: 'fuzzy', minScore: 0.95 }).option).toBeUndefined();
+  });
+});
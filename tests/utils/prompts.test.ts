@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { buildFieldPrompt, buildParsePrompt, SYSTEM_PROMPTS } from '../../lib/utils/prompts';
+import { buildFieldPrompt, buildParsePrompt, generateFormSchema, SYSTEM_PROMPTS } from '../../lib/utils/prompts';
 import type { FieldInfo } from '../../lib/core/types';
 
 // Mock HTMLElement for tests
@@ -103,6 +103,29 @@ describe('buildParsePrompt', () => {
     expect(prompt).toContain(text);
   });
 
+  it('lists options with their values and labels', () => {
+    const fields: FieldInfo[] = [
+      {
+        element: mockElement,
+        type: 'select',
+        name: 'country',
+        options: [{ value: 'de', label: 'Germany' }, { value: 'fr', label: 'fr' }],
+      },
+      {
+        element: mockElement,
+        type: 'checkbox',
+        name: 'interests[]',
+        multiple: true,
+        options: [{ value: 'sports', label: 'Sports' }],
+      },
+    ];
+    
+    const prompt = buildParsePrompt(fields, 'Lives in Germany');
+    
+    expect(prompt).toContain('Options: [de ("Germany"), fr]');
+    expect(prompt).toContain('Options (multiple): [sports ("Sports")]');
+  });
+
   it('requests JSON output format', () => {
     const fields: FieldInfo[] = [
       { element: mockElement, type: 'text', name: 'field1' },
@@ -114,6 +137,56 @@ describe('buildParsePrompt', () => {
   });
 });
 
+describe('generateFormSchema', () => {
+  it('restricts selects to their option values and labels', () => {
+    const fields: FieldInfo[] = [{
+      element: mockElement,
+      type: 'select',
+      name: 'country',
+      options: [{ value: 'de', label: 'Germany' }, { value: 'us', label: 'United States' }],
+    }];
+    
+    const schema = generateFormSchema(fields);
+    
+    expect(schema.properties.country).toEqual({
+      type: 'string',
+      enum: ['de', 'us', 'Germany', 'United States'],
+      description: 'Option labels: "Germany" = de, "United States" = us',
+    });
+  });
+
+  it('omits the label map when labels equal their values', () => {
+    const fields: FieldInfo[] = [{
+      element: mockElement,
+      type: 'radio',
+      name: 'size',
+      options: [{ value: 'S', label: 'S' }, { value: 'M', label: 'M' }],
+    }];
+    
+    const schema = generateFormSchema(fields);
+    
+    expect(schema.properties.size).toEqual({ type: 'string', enum: ['S', 'M'] });
+  });
+
+  it('describes multi-value fields as arrays of their option values', () => {
+    const fields: FieldInfo[] = [{
+      element: mockElement,
+      type: 'checkbox',
+      name: 'interests[]',
+      multiple: true,
+      options: [{ value: 'sports', label: 'Sports' }, { value: 'music', label: 'Music' }],
+    }];
+    
+    const schema = generateFormSchema(fields);
+    
+    expect(schema.properties['interests[]']).toMatchObject({
+      type: 'array',
+      items: { type: 'string', enum: ['sports', 'music', 'Sports', 'Music'] },
+      uniqueItems: true,
+    });
+  });
+});
+
 describe('SYSTEM_PROMPTS', () => {
   it('has FIELD_FILL prompt defined', () => {
     expect(SYSTEM_PROMPTS.FIELD_FILL).toBeDefined();
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter } from '../../lib/utils/rateLimiter';
+import { FillCancelledError, RateLimitQueueFullError } from '../../lib/core/errors';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('RateLimiter', () => {
+  it('refills the token bucket over the interval', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter({ maxRequests: 2, interval: 1000 });
+    const started: number[] = [];
+    
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire().then(() => started.push(i));
+    }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(limiter.getQueueLength()).toBe(1);
+    
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('limits concurrent requests until a slot is released', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire();
+    let secondStarted = false;
+    
+    const second = limiter.acquire().then((releaseSecond) => {
+      secondStarted = true;
+      return releaseSecond;
+    });
+    await Promise.resolve();
+    expect(secondStarted).toBe(false);
+    expect(limiter.getActiveCount()).toBe(1);
+    
+    release();
+    release(); // releasing twice has no effect
+    (await second)();
+    expect(secondStarted).toBe(true);
+    expect(limiter.getActiveCount()).toBe(0);
+  });
+
+  it('rejects requests beyond the queue size', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1, maxQueueSize: 1 });
+    await limiter.acquire();
+    const queued = limiter.acquire();
+    
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitQueueFullError);
+    expect(limiter.getQueueLength()).toBe(1);
+    queued.catch(() => {});
+  });
+
+  it('removes queued requests whose signal aborts', async () => {
+    const limiter = new RateLimiter({ maxConcurrent: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+    
+    const cancelled = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort();
+    
+    await expect(cancelled).rejects.toBeInstanceOf(FillCancelledError);
+    expect(limiter.getQueueLength()).toBe(1);
+    release();
+    await expect(next).resolves.toBeTypeOf('function');
+  });
+
+  it('holds back requests while paused', async () => {
+    vi.useFakeTimers();
+    const limiter = new RateLimiter();
+    limiter.pause(2000);
+    let started = false;
+    
+    limiter.schedule(async () => { started = true; });
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(started).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import {
+  AsyncCacheStore,
+  LocalStorageCacheStore,
+  MemoryCacheStore,
+  ResponseCache,
+  createCacheKey,
+  stableStringify,
+  type CacheEntry,
+  type ResponseCacheStore,
+} from '../../lib/utils/responseCache';
+import type { ChatRequest } from '../../lib/core/types';
+
+const request: ChatRequest = {
+  messages: [{ role: 'user', content: 'John Doe' }],
+  model: 'gemma3:4b',
+  format: { type: 'object', properties: { name: { type: 'string' } } },
+};
+const response = { content: '{"name": "John Doe"}', model: 'gemma3:4b' };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createCacheKey', () => {
+  it('is stable across key order and ignores the signal', () => {
+    const reordered: ChatRequest = {
+      format: { properties: { name: { type: 'string' } }, type: 'object' },
+      model: 'gemma3:4b',
+      messages: [{ content: 'John Doe', role: 'user' }],
+      signal: new AbortController().signal,
+    };
+    
+    expect(createCacheKey('ollama', reordered)).toBe(createCacheKey('ollama', request));
+  });
+
+  it('differs by provider, model, messages and format', () => {
+    const key = createCacheKey('ollama', request);
+    
+    expect(createCacheKey('openai', request)).not.toBe(key);
+    expect(createCacheKey('ollama', { ...request, model: 'llama3' })).not.toBe(key);
+    expect(createCacheKey('ollama', { ...request, messages: [{ role: 'user', content: 'Jane' }] })).not.toBe(key);
+    expect(createCacheKey('ollama', { ...request, format: undefined })).not.toBe(key);
+  });
+
+  it('serializes objects with sorted keys', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: undefined }] })).toBe('{"a":[{"d":2}],"b":1}');
+  });
+});
+
+describe('ResponseCache', () => {
+  it('returns stored responses until the TTL expires', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ ttl: 1000 });
+    
+    await cache.set('ollama', request, response);
+    expect(await cache.get('ollama', request)).toEqual(response);
+    
+    vi.advanceTimersByTime(1001);
+    expect(await cache.get('ollama', request)).toBeUndefined();
+  });
+
+  it('works with asynchronous key-value stores', async () => {
+    const values = new Map<string, unknown>();
+    const store = new AsyncCacheStore({
+      get: async (key) => values.get(key),
+      set: async (key, value) => { values.set(key, value); },
+      del: async (key) => { values.delete(key); },
+      clear: async () => values.clear(),
+    });
+    const cache = new ResponseCache({ store });
+    
+    await cache.set('ollama', request, response);
+    expect(await cache.get('ollama', request)).toEqual(response);
+    await cache.clear();
+    expect(values.size).toBe(0);
+  });
+
+  it('evicts the least recently used entries beyond maxEntries from any store', async () => {
+    const entries = new Map<string, CacheEntry>();
+    const store: ResponseCacheStore = {
+      get: key => entries.get(key),
+      set: (key, entry) => { entries.set(key, entry); },
+      delete: key => { entries.delete(key); },
+      clear: () => entries.clear(),
+    };
+    const cache = new ResponseCache({ store, maxEntries: 2 });
+    const requestFor = (content: string): ChatRequest => ({ ...request, messages: [{ role: 'user', content }] });
+    
+    await cache.set('ollama', requestFor('a'), response);
+    await cache.set('ollama', requestFor('b'), response);
+    await cache.get('ollama', requestFor('a'));
+    await cache.set('ollama', requestFor('c'), response);
+    
+    expect(entries.size).toBe(2);
+    expect(await cache.get('ollama', requestFor('a'))).toEqual(response);
+    expect(await cache.get('ollama', requestFor('b'))).toBeUndefined();
+  });
+});
+
+describe('AsyncCacheStore', () => {
+  it('keeps an index of its keys and evicts the oldest beyond maxEntries', async () => {
+    const values = new Map<string, unknown>();
+    const keyValueStore = {
+      get: async (key: string) => values.get(key),
+      set: async (key: string, value: unknown) => { values.set(key, value); },
+      del: async (key: string) => { values.delete(key); },
+      clear: async () => values.clear(),
+    };
+    const entry = { response, createdAt: 0 };
+    
+    await new AsyncCacheStore(keyValueStore, { maxEntries: 2 }).set('a', entry);
+    // A new instance, as after a page reload, continues with the stored index
+    const store = new AsyncCacheStore(keyValueStore, { maxEntries: 2 });
+    await store.set('b', entry);
+    await store.set('c', entry);
+    
+    expect(await store.get('a')).toBeUndefined();
+    expect(values.get('aff-cache-index')).toEqual(['b', 'c']);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('evicts the least recently used entry', () => {
+    const store = new MemoryCacheStore(2);
+    const entry = { response, createdAt: 0 };
+    
+    store.set('a', entry);
+    store.set('b', entry);
+    store.get('a');
+    store.set('c', entry);
+    
+    expect(store.get('a')).toBeDefined();
+    expect(store.get('b')).toBeUndefined();
+    expect(store.get('c')).toBeDefined();
+  });
+});
+
+describe('LocalStorageCacheStore', () => {
+  it('persists prefixed entries and evicts the oldest beyond maxEntries', () => {
+    const storage = new JSDOM('', { url: 'http://localhost' }).window.localStorage;
+    storage.setItem('unrelated', 'keep');
+    const store = new LocalStorageCacheStore({ storage, maxEntries: 2 });
+    
+    store.set('a', { response, createdAt: 1 });
+    store.set('b', { response, createdAt: 2 });
+    store.set('c', { response, createdAt: 3 });
+    
+    expect(store.get('a')).toBeUndefined();
+    expect(store.get('c')).toEqual({ response, createdAt: 3 });
+    expect(storage.getItem('aff-cache:b')).not.toBeNull();
+    
+    store.clear();
+    expect(storage.length).toBe(1);
+    expect(storage.getItem('unrelated')).toBe('keep');
+  });
+});
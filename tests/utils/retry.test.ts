@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { getRetryDelay, isRetryableError, resolveRetryPolicy, sleep } from '../../lib/utils/retry';
+import {
+  FillCancelledError,
+  ProviderAuthError,
+  ProviderConnectionError,
+  ProviderHttpError,
+  ProviderRateLimitError,
+  ProviderTimeoutError,
+} from '../../lib/core/errors';
+
+describe('resolveRetryPolicy', () => {
+  it('makes a single attempt without a policy', () => {
+    expect(resolveRetryPolicy().maxAttempts).toBe(1);
+  });
+
+  it('fills in defaults for unset options', () => {
+    const policy = resolveRetryPolicy({ maxAttempts: 5, jitter: undefined });
+    
+    expect(policy.maxAttempts).toBe(5);
+    expect(policy.jitter).toBe('full');
+    expect(policy.retryableStatuses).toContain(503);
+  });
+});
+
+describe('isRetryableError', () => {
+  const policy = resolveRetryPolicy({});
+
+  it('retries timeouts, connection errors and retryable statuses', () => {
+    expect(isRetryableError(new ProviderTimeoutError(1000), policy)).toBe(true);
+    expect(isRetryableError(new ProviderConnectionError(), policy)).toBe(true);
+    expect(isRetryableError(new ProviderHttpError(503, 'Service Unavailable'), policy)).toBe(true);
+    expect(isRetryableError(new ProviderRateLimitError('Too Many Requests'), policy)).toBe(true);
+  });
+
+  it('does not retry client errors or cancellation', () => {
+    expect(isRetryableError(new ProviderHttpError(400, 'Bad Request'), policy)).toBe(false);
+    expect(isRetryableError(new ProviderAuthError(401, 'Unauthorized'), policy)).toBe(false);
+    expect(isRetryableError(new FillCancelledError(), policy)).toBe(false);
+    expect(isRetryableError(new Error('boom'), policy)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('doubles the delay per attempt up to maxDelay', () => {
+    const policy = resolveRetryPolicy({ baseDelay: 100, maxDelay: 500, jitter: 'none' });
+    
+    expect([1, 2, 3, 4].map(attempt => getRetryDelay(policy, attempt))).toEqual([100, 200, 400, 500]);
+  });
+
+  it('applies full and equal jitter', () => {
+    const full = resolveRetryPolicy({ baseDelay: 1000, jitter: 'full' });
+    const equal = resolveRetryPolicy({ baseDelay: 1000, jitter: 'equal' });
+    
+    expect(getRetryDelay(full, 1, undefined, () => 0.25)).toBe(250);
+    expect(getRetryDelay(equal, 1, undefined, () => 0.25)).toBe(625);
+  });
+
+  it('uses the Retry-After delay of rate limit errors', () => {
+    const error = new ProviderRateLimitError('Too Many Requests', undefined, 3000);
+    
+    expect(getRetryDelay(resolveRetryPolicy({ jitter: 'none' }), 1, error)).toBe(3000);
+    expect(getRetryDelay(resolveRetryPolicy({ jitter: 'none', respectRetryAfter: false }), 1, error)).toBe(500);
+  });
+
+  it('caps the Retry-After delay at maxDelay', () => {
+    const error = new ProviderRateLimitError('Too Many Requests', undefined, 3_600_000);
+    
+    expect(getRetryDelay(resolveRetryPolicy({ maxDelay: 10000 }), 1, error)).toBe(10000);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with FillCancelledError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const wait = sleep(10000, controller.signal);
+    controller.abort();
+    
+    await expect(wait).rejects.toBeInstanceOf(FillCancelledError);
+  });
+});
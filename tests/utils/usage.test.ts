@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCost, createTokenUsage, estimateTokenUsage, findModelPricing } from '../../lib/utils/usage';
+
+describe('createTokenUsage', () => {
+  it('returns undefined when the provider reported no counts', () => {
+    expect(createTokenUsage()).toBeUndefined();
+  });
+
+  it('computes the total if it is missing', () => {
+    expect(createTokenUsage(120, 30)).toEqual({ inputTokens: 120, outputTokens: 30, totalTokens: 150 });
+  });
+});
+
+describe('estimateTokenUsage', () => {
+  it('counts about four characters per token', () => {
+    const messages = [{ role: 'system' as const, content: 'x'.repeat(30) }, { role: 'user' as const, content: 'x'.repeat(10) }];
+    
+    expect(estimateTokenUsage(messages, '{"a": 1}')).toEqual({ inputTokens: 10, outputTokens: 2, totalTokens: 12 });
+  });
+});
+
+describe('findModelPricing', () => {
+  const pricing = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  };
+
+  it('prefers the exact model, then the longest prefix', () => {
+    expect(findModelPricing('gpt-4o', pricing)).toBe(pricing['gpt-4o']);
+    expect(findModelPricing('gpt-4o-mini-2024-07-18', pricing)).toBe(pricing['gpt-4o-mini']);
+    expect(findModelPricing('gpt-4o-2024-08-06', pricing)).toBe(pricing['gpt-4o']);
+    expect(findModelPricing('gemma3:4b', pricing)).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  it('prices input and output tokens per million', () => {
+    const usage = { inputTokens: 1000, outputTokens: 500, totalTokens: 1500 };
+    
+    expect(calculateCost(usage, 'gpt-4o', { 'gpt-4o': { input: 2.5, output: 10 } })).toBeCloseTo(0.0075);
+    expect(calculateCost(usage, 'gpt-4o')).toBeUndefined();
+  });
+});
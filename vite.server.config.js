@@ -0,0 +1,29 @@
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vite'
+import dts from 'vite-plugin-dts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Server entry (`ai-form-fill/server`), built separately from the browser bundle
+export default defineConfig({
+  build: {
+    // Keep the browser bundle built by vite.config.js
+    emptyOutDir: false,
+    lib: {
+      entry: resolve(__dirname, 'lib/server/main.ts'),
+      formats: ['es', 'cjs'],
+      fileName: 'server',
+    },
+  },
+  plugins: [
+    // Declarations go to dist/types instead of being rolled up, which would replace
+    // the declaration file of the browser bundle (package.json `types`)
+    dts({
+      include: ['lib'],
+      entryRoot: 'lib',
+      outDir: 'dist/types',
+      tsconfigPath: './tsconfig.json',
+    }),
+  ],
+})